@@ -0,0 +1,82 @@
+/**
+ * Candidate write benchmark.
+ * Measures createCandidatesBulk throughput (fresh inserts and re-upserts) against the configured database.
+ *
+ * Usage: pnpm run bench:candidates [sizes...]   (default: 1000 10000 100000)
+ */
+
+import { randomUUID } from 'crypto';
+import { pool } from './connection';
+import { CREATE_SCHEMA } from './schema';
+import * as runModel from '../models/run';
+import * as stepModel from '../models/step';
+import { CandidateRecord, createCandidatesBulk } from '../models/candidate';
+
+const DEFAULT_SIZES = [1000, 10000, 100000];
+
+const REASON_CODES = ['price_too_high', 'rating_too_low', 'out_of_stock', 'wrong_category'];
+
+// Shaped like a filter step logging every candidate: ~half rejected, with attributes and reason params
+function generateCandidates(stepId: string, count: number): CandidateRecord[] {
+  return Array.from({ length: count }, (_, i) => {
+    const rejected = i % 2 === 1;
+    const reasonCode = REASON_CODES[i % REASON_CODES.length];
+    return {
+      candidate_id: `product-${i}`,
+      step_id: stepId,
+      decision: rejected ? 'rejected' : 'accepted',
+      score: Math.round(Math.random() * 1000) / 1000,
+      reason: rejected ? `Rejected: ${reasonCode.replace(/_/g, ' ')}` : undefined,
+      reason_code: rejected ? reasonCode : undefined,
+      reason_params: rejected ? { threshold: 50, actual: 50 + (i % 100) } : undefined,
+      attributes: { category: i % 3 === 0 ? 'phone_accessories' : 'laptop_accessories', price: 10 + (i % 90) },
+    };
+  });
+}
+
+async function time(fn: () => Promise<void>): Promise<number> {
+  const startedAt = process.hrtime.bigint();
+  await fn();
+  return Number(process.hrtime.bigint() - startedAt) / 1e6;
+}
+
+function report(label: string, count: number, ms: number): void {
+  const perSecond = Math.round((count / ms) * 1000);
+  console.log(`${label.padEnd(10)} ${String(count).padStart(8)} candidates  ${ms.toFixed(0).padStart(7)} ms  ${String(perSecond).padStart(9)} rows/s`);
+}
+
+async function benchmark() {
+  const sizes = process.argv.slice(2).map((arg) => parseInt(arg, 10)).filter((n) => n > 0);
+  const runId = randomUUID();
+
+  await pool.query(CREATE_SCHEMA);
+  await runModel.createRun({
+    run_id: runId,
+    pipeline: 'candidate_write_benchmark',
+    input: {},
+    started_at: new Date().toISOString(),
+    status: 'running',
+  });
+
+  try {
+    for (const size of sizes.length > 0 ? sizes : DEFAULT_SIZES) {
+      const stepId = randomUUID();
+      await stepModel.createStep({ step_id: stepId, run_id: runId, name: `filter_${size}`, type: 'filter', metadata: {} });
+
+      const candidates = generateCandidates(stepId, size);
+      report('insert', size, await time(() => createCandidatesBulk(candidates)));
+      // Same ids again: exercises the ON CONFLICT DO UPDATE path
+      report('upsert', size, await time(() => createCandidatesBulk(candidates)));
+    }
+  } finally {
+    // Steps and candidates cascade
+    await pool.query('DELETE FROM runs WHERE run_id = $1', [runId]);
+  }
+}
+
+benchmark()
+  .then(() => process.exit(0))
+  .catch((error: any) => {
+    console.error('❌ Benchmark failed:', error?.message || error);
+    process.exit(1);
+  });
@@ -1,8 +1,14 @@
 /**
  * PostgreSQL connection pool.
+ *
+ * Models query through `db`, which uses the pool unless the caller is inside withTransaction:
+ * then every query in that async context runs on the transaction's client. This lets the
+ * worker's group commit (queue/groupCommit.ts) write many jobs in one transaction without
+ * the models or processors knowing about it.
  */
 
-import { Pool } from 'pg';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 import * as dotenv from 'dotenv';
 
 dotenv.config();
@@ -18,5 +24,44 @@ const pool = new Pool({
   connectionTimeoutMillis: 2000,
 });
 
-export { pool };
+const transactionClient = new AsyncLocalStorage<PoolClient>();
 
+const db = {
+  query<R extends QueryResultRow = any>(text: string, values?: any[]): Promise<QueryResult<R>> {
+    return (transactionClient.getStore() || pool).query<R>(text, values);
+  },
+};
+
+/**
+ * Run fn in a transaction (committed when it resolves, rolled back when it throws).
+ * Inside an enclosing transaction fn joins it instead, so the enclosing caller decides
+ * what is committed.
+ */
+async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const current = transactionClient.getStore();
+  if (current) return fn(current);
+
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await transactionClient.run(client, () => fn(client));
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Run fn on the pool even inside withTransaction: its queries autocommit and take no part in
+ * the enclosing transaction. For writes other transactions wait on (placeholder rows), which
+ * must not hold locks until an unrelated batch commits.
+ */
+function outsideTransaction<T>(fn: () => Promise<T>): Promise<T> {
+  return transactionClient.exit(fn);
+}
+
+export { pool, db, withTransaction, outsideTransaction };
@@ -0,0 +1,46 @@
+/**
+ * API key creation script.
+ * Creates the project if needed and prints a new key for it. Use it for a project's first
+ * admin key (later keys can be created with POST /api-keys).
+ *
+ * Usage: pnpm run create-api-key <project> [scopes] [name]
+ *   scopes: comma-separated ingest, read, admin (default: ingest,read)
+ *   project `default` is the project requests without a key use
+ */
+
+import { pool } from './connection';
+import { CREATE_SCHEMA } from './schema';
+import * as projectModel from '../models/project';
+import type { ApiKeyScope } from '../models/project';
+
+async function createKey() {
+  const [projectName, scopeList = 'ingest,read', name = 'cli'] = process.argv.slice(2);
+
+  if (!projectName) {
+    console.error('Usage: pnpm run create-api-key <project> [scopes] [name]');
+    process.exit(1);
+  }
+
+  const scopes = scopeList.split(',').map((scope) => scope.trim()) as ApiKeyScope[];
+  if (!scopes.every((scope) => projectModel.API_KEY_SCOPES.includes(scope))) {
+    console.error(`❌ Scopes must be a comma-separated list of: ${projectModel.API_KEY_SCOPES.join(', ')}`);
+    process.exit(1);
+  }
+
+  try {
+    await pool.query(CREATE_SCHEMA);
+    const project = await projectModel.ensureProject(projectName);
+    const { key, record } = await projectModel.createApiKey(project.project_id, name, scopes);
+
+    console.log(`✅ Created API key ${record.key_id} for project ${project.name} (${project.project_id})`);
+    console.log(`   Scopes: ${record.scopes.join(', ')}`);
+    console.log(`\n   ${key}\n`);
+    console.log('   Store it now: only its hash is kept, so it cannot be shown again.');
+    process.exit(0);
+  } catch (error: any) {
+    console.error('❌ Error creating API key:', error.message);
+    process.exit(1);
+  }
+}
+
+createKey();
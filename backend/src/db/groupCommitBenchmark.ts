@@ -0,0 +1,101 @@
+/**
+ * Group commit benchmark.
+ * Measures worker throughput for single create-candidate jobs, dispatched one transaction per job
+ * and through withGroupCommit, against the configured database.
+ *
+ * Usage: pnpm run bench:group-commit [jobs...]   (default: 1000 10000)
+ */
+
+import { randomUUID } from 'crypto';
+import { pool } from './connection';
+import { CREATE_SCHEMA } from './schema';
+import * as runModel from '../models/run';
+import * as stepModel from '../models/step';
+import { QueueJob } from '../queue/jobQueue';
+import { withGroupCommit, groupCommitEnabled, GROUP_COMMIT_WINDOW_MS, GROUP_COMMIT_MAX_JOBS } from '../queue/groupCommit';
+import { processCreateCandidate } from '../queue/processors/candidateProcessor';
+
+const DEFAULT_SIZES = [1000, 10000];
+
+// As queue/handlers.ts (not imported: it opens the Redis queues)
+const JOB_CONCURRENCY = Math.max(10, GROUP_COMMIT_MAX_JOBS);
+
+type Dispatch = (job: QueueJob) => Promise<void>;
+
+function generateJobs(runId: string, stepId: string, prefix: string, count: number): QueueJob[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: String(i),
+    name: 'create-candidate',
+    data: {
+      candidate_id: `${prefix}-${i}`,
+      step_id: stepId,
+      run_id: runId,
+      decision: i % 2 === 1 ? 'rejected' : 'accepted',
+      score: Math.round(Math.random() * 1000) / 1000,
+      attributes: { price: 10 + (i % 90) },
+    },
+  }) as unknown as QueueJob);
+}
+
+// Like a worker: at most JOB_CONCURRENCY jobs in flight
+async function drain(jobs: QueueJob[], dispatch: Dispatch): Promise<void> {
+  let next = 0;
+  const worker = async () => {
+    while (next < jobs.length) {
+      await dispatch(jobs[next++]);
+    }
+  };
+  await Promise.all(Array.from({ length: JOB_CONCURRENCY }, worker));
+}
+
+async function time(fn: () => Promise<void>): Promise<number> {
+  const startedAt = process.hrtime.bigint();
+  await fn();
+  return Number(process.hrtime.bigint() - startedAt) / 1e6;
+}
+
+function report(label: string, count: number, ms: number): void {
+  const perSecond = Math.round((count / ms) * 1000);
+  console.log(`${label.padEnd(10)} ${String(count).padStart(8)} jobs  ${ms.toFixed(0).padStart(7)} ms  ${String(perSecond).padStart(9)} jobs/s`);
+}
+
+async function benchmark() {
+  if (!groupCommitEnabled) {
+    throw new Error('Group commit is disabled (XRAY_GROUP_COMMIT_WINDOW_MS=0); nothing to compare');
+  }
+
+  const sizes = process.argv.slice(2).map((arg) => parseInt(arg, 10)).filter((n) => n > 0);
+  const runId = randomUUID();
+  const dispatch: Dispatch = (job) => processCreateCandidate(job as any);
+
+  await pool.query(CREATE_SCHEMA);
+  await runModel.createRun({
+    run_id: runId,
+    pipeline: 'group_commit_benchmark',
+    input: {},
+    started_at: new Date().toISOString(),
+    status: 'running',
+  });
+
+  console.log(`concurrency ${JOB_CONCURRENCY}, window ${GROUP_COMMIT_WINDOW_MS}ms, up to ${GROUP_COMMIT_MAX_JOBS} jobs per batch`);
+
+  try {
+    for (const size of sizes.length > 0 ? sizes : DEFAULT_SIZES) {
+      const stepId = randomUUID();
+      await stepModel.createStep({ step_id: stepId, run_id: runId, name: `filter_${size}`, type: 'filter', metadata: {} });
+
+      report('per job', size, await time(() => drain(generateJobs(runId, stepId, 'single', size), dispatch)));
+      report('grouped', size, await time(() => drain(generateJobs(runId, stepId, 'grouped', size), withGroupCommit(dispatch))));
+    }
+  } finally {
+    // Steps and candidates cascade
+    await pool.query('DELETE FROM runs WHERE run_id = $1', [runId]);
+  }
+}
+
+benchmark()
+  .then(() => process.exit(0))
+  .catch((error: any) => {
+    console.error('❌ Benchmark failed:', error?.message || error);
+    process.exit(1);
+  });
@@ -5,38 +5,134 @@
  */
 
 export const CREATE_SCHEMA = `
+-- Projects: tenants sharing one deployment (requests without an API key use the default project)
+CREATE TABLE IF NOT EXISTS projects (
+  project_id UUID PRIMARY KEY,
+  name VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO projects (project_id, name) VALUES ('00000000-0000-0000-0000-000000000000', 'default')
+ON CONFLICT (project_id) DO NOTHING;
+
+-- API keys: only the SHA-256 hash is stored; key_prefix identifies a key in listings
+CREATE TABLE IF NOT EXISTS api_keys (
+  key_id UUID PRIMARY KEY,
+  project_id UUID NOT NULL REFERENCES projects(project_id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  key_prefix VARCHAR(16) NOT NULL,
+  key_hash CHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL CHECK (cardinality(scopes) > 0 AND scopes <@ ARRAY['ingest', 'read', 'admin']),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMP
+);
+
 -- Runs table
 CREATE TABLE IF NOT EXISTS runs (
   run_id UUID PRIMARY KEY,
+  project_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES projects(project_id) ON DELETE CASCADE,
   pipeline VARCHAR(255) NOT NULL,
   input JSONB,
   started_at TIMESTAMP NOT NULL,
   ended_at TIMESTAMP,
   status VARCHAR(50) NOT NULL DEFAULT 'running',
+  error TEXT,
+  error_class VARCHAR(255),
+  error_stack TEXT,
+  error_attributes JSONB,
+  error_fingerprint VARCHAR(64),
+  failed_step_id UUID,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  attributes JSONB NOT NULL DEFAULT '{}'::jsonb,
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Run error capture (for databases created before error capture was added)
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS error TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS error_class VARCHAR(255);
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS error_stack TEXT;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS error_attributes JSONB;
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS error_fingerprint VARCHAR(64);
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS failed_step_id UUID;
+
+-- Run tags and searchable attributes (for databases created before tags were added)
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS attributes JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Run ownership (for databases created before projects; existing runs join the default project)
+ALTER TABLE runs ADD COLUMN IF NOT EXISTS project_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES projects(project_id) ON DELETE CASCADE;
+
+-- Step type registry: each type declares the semantic category cross-pipeline queries use
+CREATE TABLE IF NOT EXISTS step_types (
+  name VARCHAR(50) PRIMARY KEY,
+  category VARCHAR(50) NOT NULL CHECK (category IN ('filter', 'rank', 'generate', 'select')),
+  description TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO step_types (name, category, description) VALUES
+  ('filter', 'filter', 'Eliminates candidates'),
+  ('rank', 'rank', 'Orders candidates by score'),
+  ('generate', 'generate', 'Creates candidates'),
+  ('select', 'select', 'Chooses the final output')
+ON CONFLICT (name) DO NOTHING;
+
 -- Steps table
 CREATE TABLE IF NOT EXISTS steps (
   step_id UUID PRIMARY KEY,
   run_id UUID NOT NULL REFERENCES runs(run_id) ON DELETE CASCADE,
+  project_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES projects(project_id) ON DELETE CASCADE, -- same as the run's
   name VARCHAR(255) NOT NULL,
-  type VARCHAR(50) NOT NULL CHECK (type IN ('filter', 'rank', 'generate', 'select')),
+  type VARCHAR(50) NOT NULL, -- registered in step_types
   input_count INTEGER,
   output_count INTEGER,
   metadata JSONB,
+  started_at TIMESTAMP,
+  ended_at TIMESTAMP,
+  status VARCHAR(50),
+  error TEXT,
+  error_class VARCHAR(255),
+  error_stack TEXT,
+  error_attributes JSONB,
+  error_fingerprint VARCHAR(64),
+  parent_step_ids UUID[] NOT NULL DEFAULT '{}',
   created_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Step timing columns (for databases created before step start/end tracking)
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS started_at TIMESTAMP;
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS ended_at TIMESTAMP;
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS status VARCHAR(50);
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS error TEXT;
+
+-- Step error capture (for databases created before error capture was added)
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS error_class VARCHAR(255);
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS error_stack TEXT;
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS error_attributes JSONB;
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS error_fingerprint VARCHAR(64);
+
+-- Step types are validated against the registry (for databases created with the fixed type list)
+ALTER TABLE steps DROP CONSTRAINT IF EXISTS steps_type_check;
+
+-- Step DAG edges (for databases created before nested/branching steps)
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS parent_step_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Step ownership (for databases created before projects; existing steps join the default project)
+ALTER TABLE steps ADD COLUMN IF NOT EXISTS project_id UUID NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000' REFERENCES projects(project_id) ON DELETE CASCADE;
+
 -- Step summaries (aggregation-first)
 CREATE TABLE IF NOT EXISTS step_summaries (
   step_id UUID PRIMARY KEY REFERENCES steps(step_id) ON DELETE CASCADE,
   rejected INTEGER DEFAULT 0,
   accepted INTEGER DEFAULT 0,
   rejection_breakdown JSONB DEFAULT '{}'::jsonb,
+  reason_code_breakdown JSONB NOT NULL DEFAULT '{}'::jsonb,
   updated_at TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Structured rejection reason codes (for databases created before reason codes were added)
+ALTER TABLE step_summaries ADD COLUMN IF NOT EXISTS reason_code_breakdown JSONB NOT NULL DEFAULT '{}'::jsonb;
+
 -- Candidates (optional, sampled)
 CREATE TABLE IF NOT EXISTS candidates (
   candidate_id VARCHAR(255) NOT NULL,
@@ -44,19 +140,74 @@ CREATE TABLE IF NOT EXISTS candidates (
   decision VARCHAR(50) NOT NULL CHECK (decision IN ('accepted', 'rejected')),
   score NUMERIC,
   reason TEXT,
+  attributes JSONB NOT NULL DEFAULT '{}'::jsonb,
+  reason_code VARCHAR(255),
+  reason_params JSONB,
   created_at TIMESTAMP NOT NULL DEFAULT NOW(),
   PRIMARY KEY (candidate_id, step_id)
 );
 
+-- Structured candidate attributes (for databases created before attributes were added)
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS attributes JSONB NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS reason_code VARCHAR(255);
+ALTER TABLE candidates ADD COLUMN IF NOT EXISTS reason_params JSONB;
+
+-- LLM calls made within a step (prompt, completion, model parameters, usage and cost)
+CREATE TABLE IF NOT EXISTS llm_calls (
+  call_id UUID PRIMARY KEY,
+  step_id UUID NOT NULL REFERENCES steps(step_id) ON DELETE CASCADE,
+  provider VARCHAR(255),
+  model VARCHAR(255) NOT NULL,
+  prompt JSONB, -- string or chat messages
+  completion TEXT,
+  temperature NUMERIC,
+  parameters JSONB NOT NULL DEFAULT '{}'::jsonb,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  total_tokens INTEGER,
+  cost_usd NUMERIC,
+  latency_ms NUMERIC,
+  started_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Custom numeric metrics, per run or per step (step_id NULL for run-level metrics)
+CREATE TABLE IF NOT EXISTS metrics (
+  metric_id UUID PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES runs(run_id) ON DELETE CASCADE,
+  step_id UUID REFERENCES steps(step_id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  unit VARCHAR(50),
+  recorded_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
 -- Indexes for queryability
 CREATE INDEX IF NOT EXISTS idx_runs_pipeline ON runs(pipeline);
 CREATE INDEX IF NOT EXISTS idx_runs_status ON runs(status);
 CREATE INDEX IF NOT EXISTS idx_runs_started_at ON runs(started_at);
+CREATE INDEX IF NOT EXISTS idx_runs_error_fingerprint ON runs(error_fingerprint);
+CREATE INDEX IF NOT EXISTS idx_runs_tags ON runs USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_runs_attributes ON runs USING GIN (attributes);
+CREATE INDEX IF NOT EXISTS idx_runs_input ON runs USING GIN (input);
+CREATE INDEX IF NOT EXISTS idx_runs_project_id_started_at ON runs(project_id, started_at);
 CREATE INDEX IF NOT EXISTS idx_steps_run_id ON steps(run_id);
+CREATE INDEX IF NOT EXISTS idx_steps_project_id ON steps(project_id);
 CREATE INDEX IF NOT EXISTS idx_steps_type ON steps(type);
 CREATE INDEX IF NOT EXISTS idx_steps_name ON steps(name);
+CREATE INDEX IF NOT EXISTS idx_steps_parent_step_ids ON steps USING GIN (parent_step_ids);
+CREATE INDEX IF NOT EXISTS idx_steps_error_fingerprint ON steps(error_fingerprint);
 CREATE INDEX IF NOT EXISTS idx_candidates_step_id ON candidates(step_id);
+CREATE INDEX IF NOT EXISTS idx_llm_calls_step_id ON llm_calls(step_id);
+CREATE INDEX IF NOT EXISTS idx_llm_calls_model ON llm_calls(model);
+CREATE INDEX IF NOT EXISTS idx_metrics_name_recorded_at ON metrics(name, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_metrics_run_id ON metrics(run_id);
+CREATE INDEX IF NOT EXISTS idx_metrics_step_id ON metrics(step_id);
 CREATE INDEX IF NOT EXISTS idx_candidates_decision ON candidates(decision);
+CREATE INDEX IF NOT EXISTS idx_candidates_attributes ON candidates USING GIN (attributes);
+CREATE INDEX IF NOT EXISTS idx_candidates_reason_code ON candidates(reason_code);
+CREATE INDEX IF NOT EXISTS idx_api_keys_project_id ON api_keys(project_id);
 
 -- Index for cross-pipeline queries (e.g., filtering steps dropping >90%)
 CREATE INDEX IF NOT EXISTS idx_step_summaries_rejection_rate ON step_summaries((rejected::float / NULLIF(rejected + accepted, 0)));
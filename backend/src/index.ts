@@ -6,29 +6,53 @@ import express from 'express';
 import cors from 'cors';
 import { pool } from './db/connection';
 import { CREATE_SCHEMA } from './db/schema';
+import { queueMode } from './queue/config';
+import { startEmbeddedProcessing, stopEmbeddedProcessing } from './queue/handlers';
 import runsRouter from './routes/runs';
 import stepsRouter from './routes/steps';
+import ingestRouter from './routes/ingest';
+import reasonsRouter from './routes/reasons';
+import errorsRouter from './routes/errors';
+import otlpRouter from './routes/otlp';
+import stepTypesRouter from './routes/stepTypes';
+import metricsRouter from './routes/metrics';
+import queryRouter from './routes/query';
+import adminRouter from './routes/admin';
+import apiKeysRouter from './routes/apiKeys';
+import { authenticate, requireApiKey, requireScope, requireOperator, authRequired } from './middleware/auth';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '10mb' })); // batched ingest and bulk candidate payloads can be large
 
 // Health check
 app.get('/health', async (req, res) => {
   try {
     await pool.query('SELECT 1');
-    res.json({ status: 'healthy', database: 'connected' });
+    res.json({ status: 'healthy', database: 'connected', queue: queueMode });
   } catch (error) {
     res.status(500).json({ status: 'unhealthy', database: 'disconnected' });
   }
 });
 
-// Routes
-app.use('/runs', runsRouter);
-app.use('/steps', stepsRouter);
+// Everything below needs an API key when XRAY_AUTH=required (see middleware/auth.ts)
+app.use(authenticate);
+
+// Routes (requireScope() without a scope: GET needs read, writes need ingest)
+app.use('/runs', requireScope(), runsRouter);
+app.use('/steps', requireScope(), stepsRouter);
+app.use('/ingest', requireScope('ingest'), ingestRouter);
+app.use('/reasons', requireScope('read'), reasonsRouter);
+app.use('/errors', requireScope('read'), errorsRouter);
+app.use('/v1/traces', requireScope('ingest'), otlpRouter);
+app.use('/step-types', requireScope('read'), stepTypesRouter);
+app.use('/metrics', requireScope(), metricsRouter);
+app.use('/query', requireScope('read'), queryRouter);
+app.use('/admin', requireApiKey, requireScope('admin'), requireOperator, adminRouter);
+app.use('/api-keys', requireApiKey, requireScope('admin'), apiKeysRouter);
 
 // Initialize database schema on startup
 async function initializeDatabase() {
@@ -56,9 +80,24 @@ async function initializeDatabase() {
 async function start() {
   await initializeDatabase();
 
+  // Embedded mode: process jobs in this process instead of worker.ts (only PostgreSQL needed)
+  if (queueMode === 'embedded') {
+    startEmbeddedProcessing();
+    console.log('Embedded queue mode: processing jobs in-process (no Redis or worker needed)');
+
+    // Let active jobs finish; jobs still queued in memory are lost
+    const shutdown = async () => {
+      await stopEmbeddedProcessing();
+      process.exit(0);
+    };
+    process.on('SIGTERM', shutdown);
+    process.on('SIGINT', shutdown);
+  }
+
   app.listen(PORT, () => {
     console.log(`X-Ray API server running on http://localhost:${PORT}`);
     console.log(`Health check: http://localhost:${PORT}/health`);
+    if (authRequired) console.log('API keys required (XRAY_AUTH=required)');
   });
 }
 
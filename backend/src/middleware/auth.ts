@@ -0,0 +1,116 @@
+/**
+ * API key authentication and scopes.
+ *
+ * A key is sent as `X-XRay-Api-Key: <key>` (or `Authorization: Bearer <key>`) and resolves to
+ * its project and scopes, which routes read from `req.auth`. With XRAY_AUTH=required every
+ * request needs a key; otherwise requests without one act on the default project with the
+ * `ingest` and `read` scopes (single-team deployments keep working unchanged), and a key that
+ * is sent must be valid. Administration (`admin` scope) always needs a real key.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import * as projectModel from '../models/project';
+import type { ApiKeyScope } from '../models/project';
+
+export const API_KEY_HEADER = 'X-XRay-Api-Key';
+
+export const authRequired = process.env.XRAY_AUTH === 'required';
+
+// Requests without a key can write and query the default project, never administer it
+const KEYLESS_SCOPES: ApiKeyScope[] = ['ingest', 'read'];
+
+export interface AuthContext {
+  project_id: string;
+  scopes: ApiKeyScope[];
+  key_id?: string; // unset for unauthenticated requests (XRAY_AUTH not required)
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext;
+    }
+  }
+}
+
+function apiKeyOf(req: Request): string | undefined {
+  const header = req.get(API_KEY_HEADER);
+  if (header) return header.trim();
+
+  const authorization = req.get('authorization');
+  if (authorization?.startsWith('Bearer ')) return authorization.slice('Bearer '.length).trim();
+  return undefined;
+}
+
+/**
+ * Resolve the request's API key to req.auth (401 if missing while required, or invalid).
+ */
+export async function authenticate(req: Request, res: Response, next: NextFunction) {
+  const key = apiKeyOf(req);
+
+  if (!key) {
+    if (authRequired) {
+      return res.status(401).json({ error: 'Missing API key', message: `Send it in the ${API_KEY_HEADER} header` });
+    }
+    req.auth = { project_id: projectModel.DEFAULT_PROJECT_ID, scopes: KEYLESS_SCOPES };
+    return next();
+  }
+
+  try {
+    const apiKey = await projectModel.findApiKey(key);
+    if (!apiKey) {
+      return res.status(401).json({ error: 'Invalid or revoked API key' });
+    }
+
+    req.auth = { project_id: apiKey.project_id, scopes: apiKey.scopes, key_id: apiKey.key_id };
+    next();
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error checking API key:', errorMessage);
+    res.status(503).json({ error: 'Could not verify API key' });
+  }
+}
+
+/**
+ * Require a real API key, even when XRAY_AUTH is not required.
+ */
+export function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  if (!req.auth?.key_id) {
+    return res.status(401).json({ error: 'Missing API key', message: `Send it in the ${API_KEY_HEADER} header` });
+  }
+  next();
+}
+
+/**
+ * Require a scope; without one, GET/HEAD need `read` and other methods `ingest`.
+ * `admin` keys have every scope.
+ */
+export function requireScope(scope?: ApiKeyScope) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const needed = scope || (req.method === 'GET' || req.method === 'HEAD' ? 'read' : 'ingest');
+    const scopes = req.auth?.scopes || [];
+
+    if (!scopes.includes(needed) && !scopes.includes('admin')) {
+      return res.status(403).json({ error: `API key lacks the ${needed} scope` });
+    }
+    next();
+  };
+}
+
+/**
+ * Queues and the step type registry are shared by every project, so administering them is
+ * limited to the deployment's operators: admin keys of the default project.
+ */
+export function requireOperator(req: Request, res: Response, next: NextFunction) {
+  if (req.auth?.project_id !== projectModel.DEFAULT_PROJECT_ID) {
+    return res.status(403).json({ error: 'Requires an admin key of the default project (an operator key)' });
+  }
+  next();
+}
+
+/**
+ * The project the request acts on.
+ */
+export function projectOf(req: Request): string {
+  return req.auth?.project_id || projectModel.DEFAULT_PROJECT_ID;
+}
@@ -2,7 +2,7 @@
  * Candidate model - data access layer.
  */
 
-import { pool } from '../db/connection';
+import { db, withTransaction } from '../db/connection';
 
 export interface CandidateRecord {
   candidate_id: string;
@@ -10,68 +10,119 @@ export interface CandidateRecord {
   decision: 'accepted' | 'rejected';
   score?: number;
   reason?: string;
+  reason_code?: string;
+  reason_params?: Record<string, any>;
+  attributes?: Record<string, any>;
 }
 
 export async function createCandidate(candidate: CandidateRecord): Promise<void> {
-  await pool.query(
-    `INSERT INTO candidates (candidate_id, step_id, decision, score, reason)
-     VALUES ($1, $2, $3, $4, $5)
+  await db.query(
+    `INSERT INTO candidates (candidate_id, step_id, decision, score, reason, reason_code, reason_params, attributes)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
      ON CONFLICT (candidate_id, step_id) DO UPDATE SET
        decision = EXCLUDED.decision,
        score = EXCLUDED.score,
-       reason = EXCLUDED.reason`,
+       reason = EXCLUDED.reason,
+       reason_code = EXCLUDED.reason_code,
+       reason_params = EXCLUDED.reason_params,
+       attributes = EXCLUDED.attributes`,
     [
       candidate.candidate_id,
       candidate.step_id,
       candidate.decision,
       candidate.score,
       candidate.reason,
+      candidate.reason_code,
+      candidate.reason_params ? JSON.stringify(candidate.reason_params) : null,
+      JSON.stringify(candidate.attributes || {}),
     ]
   );
 }
 
+// Rows per INSERT statement; keeps statement size and memory bounded for very large steps
+const BULK_CHUNK_SIZE = 5000;
+
+/**
+ * Keep the last record per (candidate_id, step_id): one INSERT ... ON CONFLICT DO UPDATE
+ * cannot touch the same row twice.
+ */
+function dedupeCandidates(candidates: CandidateRecord[]): CandidateRecord[] {
+  const byKey = new Map<string, CandidateRecord>();
+  for (const candidate of candidates) {
+    // step_id is a UUID, so ':' cannot be ambiguous
+    byKey.set(`${candidate.step_id}:${candidate.candidate_id}`, candidate);
+  }
+  return Array.from(byKey.values());
+}
+
+/**
+ * Upsert many candidates in one transaction.
+ * Each chunk is a single multi-row INSERT ... SELECT FROM unnest(...) with one array
+ * parameter per column, so a 5,000-candidate step is one round trip instead of 5,000.
+ */
 export async function createCandidatesBulk(candidates: CandidateRecord[]): Promise<void> {
   if (candidates.length === 0) return;
 
-  // Use a transaction for bulk insert
-  const client = await pool.connect();
-  try {
-    await client.query('BEGIN');
+  const rows = dedupeCandidates(candidates);
 
-    for (const candidate of candidates) {
+  await withTransaction(async (client) => {
+    for (let start = 0; start < rows.length; start += BULK_CHUNK_SIZE) {
+      const chunk = rows.slice(start, start + BULK_CHUNK_SIZE);
       await client.query(
-        `INSERT INTO candidates (candidate_id, step_id, decision, score, reason)
-         VALUES ($1, $2, $3, $4, $5)
+        `INSERT INTO candidates (candidate_id, step_id, decision, score, reason, reason_code, reason_params, attributes)
+         SELECT * FROM unnest(
+           $1::varchar[], $2::uuid[], $3::varchar[], $4::numeric[], $5::text[], $6::varchar[], $7::jsonb[], $8::jsonb[]
+         )
          ON CONFLICT (candidate_id, step_id) DO UPDATE SET
            decision = EXCLUDED.decision,
            score = EXCLUDED.score,
-           reason = EXCLUDED.reason`,
+           reason = EXCLUDED.reason,
+           reason_code = EXCLUDED.reason_code,
+           reason_params = EXCLUDED.reason_params,
+           attributes = EXCLUDED.attributes`,
         [
-          candidate.candidate_id,
-          candidate.step_id,
-          candidate.decision,
-          candidate.score,
-          candidate.reason,
+          chunk.map((c) => c.candidate_id),
+          chunk.map((c) => c.step_id),
+          chunk.map((c) => c.decision),
+          chunk.map((c) => c.score ?? null),
+          chunk.map((c) => c.reason ?? null),
+          chunk.map((c) => c.reason_code ?? null),
+          chunk.map((c) => (c.reason_params ? JSON.stringify(c.reason_params) : null)),
+          chunk.map((c) => JSON.stringify(c.attributes || {})),
         ]
       );
     }
+  });
+}
+
+/**
+ * Get candidates for a step.
+ * Candidates can be filtered by reason_code. Attribute filters map a dot-separated
+ * path inside `attributes` to the expected text value,
+ * e.g. { 'category': 'desk_accessories', 'dims.width': '30' }.
+ */
+export async function getCandidatesByStep(
+  stepId: string,
+  filters?: { attributes?: Record<string, string>; reason_code?: string }
+): Promise<CandidateRecord[]> {
+  let query = `SELECT candidate_id, step_id, decision, score, reason, reason_code, reason_params, attributes
+     FROM candidates WHERE step_id = $1`;
+  const values: any[] = [stepId];
+  let paramCount = 2;
 
-    await client.query('COMMIT');
-  } catch (error) {
-    await client.query('ROLLBACK');
-    throw error;
-  } finally {
-    client.release();
+  if (filters?.reason_code) {
+    query += ` AND reason_code = $${paramCount++}`;
+    values.push(filters.reason_code);
   }
-}
 
-export async function getCandidatesByStep(stepId: string): Promise<CandidateRecord[]> {
-  const result = await pool.query(
-    `SELECT candidate_id, step_id, decision, score, reason
-     FROM candidates WHERE step_id = $1
-     ORDER BY created_at ASC`,
-    [stepId]
-  );
+  for (const [path, value] of Object.entries(filters?.attributes || {})) {
+    query += ` AND attributes #>> $${paramCount++}::text[] = $${paramCount++}`;
+    values.push(path.split('.'), value);
+  }
+
+  query += ` ORDER BY created_at ASC`;
+
+  const result = await db.query(query, values);
 
   return result.rows.map((row) => ({
     candidate_id: row.candidate_id,
@@ -79,5 +130,75 @@ export async function getCandidatesByStep(stepId: string): Promise<CandidateReco
     decision: row.decision,
     score: row.score,
     reason: row.reason,
+    reason_code: row.reason_code ?? undefined,
+    reason_params: row.reason_params ?? undefined,
+    attributes: row.attributes || {},
   }));
 }
+
+export interface CandidateJourneyEntry {
+  step_id: string;
+  step_name: string;
+  step_type: string;
+  decision: 'accepted' | 'rejected';
+  score?: number;
+  reason?: string;
+  reason_code?: string;
+  reason_params?: Record<string, any>;
+  attributes: Record<string, any>;
+  rank?: number;
+  first_rejection: boolean;
+}
+
+/**
+ * Follow one candidate through every step of a run, in step order.
+ * Rank is the candidate's position by score among the candidates recorded for that step.
+ */
+export async function getCandidateJourney(runId: string, candidateId: string): Promise<CandidateJourneyEntry[]> {
+  const result = await db.query(
+    `SELECT step_id, step_name, step_type, decision, score, reason, reason_code, reason_params, attributes, rank
+     FROM (
+       SELECT
+         s.step_id,
+         s.name AS step_name,
+         s.type AS step_type,
+         COALESCE(s.started_at, s.created_at) AS step_started_at,
+         c.candidate_id,
+         c.decision,
+         c.score::float AS score,
+         c.reason,
+         c.reason_code,
+         c.reason_params,
+         c.attributes,
+         CASE WHEN c.score IS NULL THEN NULL
+              ELSE (RANK() OVER (PARTITION BY c.step_id ORDER BY c.score DESC NULLS LAST))::int
+         END AS rank
+       FROM candidates c
+       JOIN steps s ON s.step_id = c.step_id
+       WHERE s.run_id = $1
+     ) ranked
+     WHERE candidate_id = $2
+     ORDER BY step_started_at ASC`,
+    [runId, candidateId]
+  );
+
+  let rejected = false;
+  return result.rows.map((row) => {
+    const firstRejection = !rejected && row.decision === 'rejected';
+    if (firstRejection) rejected = true;
+
+    return {
+      step_id: row.step_id,
+      step_name: row.step_name,
+      step_type: row.step_type,
+      decision: row.decision,
+      score: row.score ?? undefined,
+      reason: row.reason ?? undefined,
+      reason_code: row.reason_code ?? undefined,
+      reason_params: row.reason_params ?? undefined,
+      attributes: row.attributes || {},
+      rank: row.rank ?? undefined,
+      first_rejection: firstRejection,
+    };
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * Error model - fingerprinting and grouping of captured run/step errors.
+ */
+
+import { createHash } from 'crypto';
+import { db } from '../db/connection';
+
+export interface ErrorDetails {
+  error?: string; // message
+  error_class?: string;
+  error_stack?: string;
+  error_attributes?: Record<string, any>;
+}
+
+/**
+ * Compute a stable fingerprint for an error.
+ * Volatile parts of the message (ids, numbers, quoted values) and line/column
+ * numbers of the top stack frame are normalized so repeats of one bug group together.
+ */
+export function computeErrorFingerprint(details: ErrorDetails): string {
+  const message = (details.error || '')
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi, '<uuid>')
+    .replace(/(["'`]).*?\1/g, '<str>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\d+/g, '<n>');
+
+  const topFrame = (details.error_stack || '')
+    .split('\n')
+    .map((line) => line.trim())
+    .find((line) => line.startsWith('at '))
+    ?.replace(/:\d+:\d+\)?$/, '');
+
+  return createHash('sha1')
+    .update([details.error_class || 'Error', message, topFrame || ''].join('|'))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+export interface ErrorGroup {
+  error_fingerprint: string;
+  error_class: string | null;
+  sample_error: string | null;
+  sample_id: string;
+  count: number;
+  pipelines: string[];
+  first_seen: string;
+  last_seen: string;
+}
+
+/**
+ * Group captured errors by fingerprint, most frequent first.
+ * scope 'runs' groups failed runs; scope 'steps' groups failed steps.
+ */
+export async function groupErrors(filters: {
+  project_id?: string;
+  scope?: 'runs' | 'steps';
+  pipeline?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+} = {}): Promise<ErrorGroup[]> {
+  const source =
+    filters.scope === 'steps'
+      ? `SELECT s.step_id AS id, s.project_id, s.error, s.error_class, s.error_fingerprint, r.pipeline,
+                COALESCE(s.ended_at, s.created_at) AS occurred_at
+         FROM steps s JOIN runs r ON r.run_id = s.run_id
+         WHERE s.error_fingerprint IS NOT NULL`
+      : `SELECT r.run_id AS id, r.project_id, r.error, r.error_class, r.error_fingerprint, r.pipeline,
+                COALESCE(r.ended_at, r.started_at) AS occurred_at
+         FROM runs r
+         WHERE r.error_fingerprint IS NOT NULL`;
+
+  let query = `SELECT
+       e.error_fingerprint,
+       (ARRAY_AGG(e.error_class ORDER BY e.occurred_at DESC))[1] AS error_class,
+       (ARRAY_AGG(e.error ORDER BY e.occurred_at DESC))[1] AS sample_error,
+       (ARRAY_AGG(e.id ORDER BY e.occurred_at DESC))[1] AS sample_id,
+       COUNT(*)::int AS count,
+       ARRAY_AGG(DISTINCT e.pipeline) AS pipelines,
+       MIN(e.occurred_at) AS first_seen,
+       MAX(e.occurred_at) AS last_seen
+     FROM (${source}) e
+     WHERE 1=1`;
+  const values: any[] = [];
+  let paramCount = 1;
+
+  if (filters.project_id) {
+    query += ` AND e.project_id = $${paramCount++}`;
+    values.push(filters.project_id);
+  }
+  if (filters.pipeline) {
+    query += ` AND e.pipeline = $${paramCount++}`;
+    values.push(filters.pipeline);
+  }
+  if (filters.from) {
+    query += ` AND e.occurred_at >= $${paramCount++}`;
+    values.push(filters.from);
+  }
+  if (filters.to) {
+    query += ` AND e.occurred_at < $${paramCount++}`;
+    values.push(filters.to);
+  }
+
+  query += ` GROUP BY e.error_fingerprint ORDER BY count DESC, last_seen DESC`;
+
+  if (filters.limit) {
+    query += ` LIMIT $${paramCount++}`;
+    values.push(filters.limit);
+  }
+
+  const result = await db.query(query, values);
+  return result.rows;
+}
@@ -0,0 +1,95 @@
+/**
+ * LLM call model - data access layer.
+ */
+
+import { db } from '../db/connection';
+
+export interface LLMCallRecord {
+  call_id: string;
+  step_id: string;
+  provider?: string;
+  model: string;
+  prompt?: string | Array<{ role: string; content: any }>;
+  completion?: string;
+  temperature?: number;
+  parameters?: Record<string, any>;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  cost_usd?: number;
+  latency_ms?: number;
+  started_at?: string;
+}
+
+export async function createLLMCall(call: LLMCallRecord): Promise<void> {
+  await db.query(
+    `INSERT INTO llm_calls (call_id, step_id, provider, model, prompt, completion, temperature, parameters,
+                            prompt_tokens, completion_tokens, total_tokens, cost_usd, latency_ms, started_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+     ON CONFLICT (call_id) DO UPDATE SET
+       provider = EXCLUDED.provider,
+       model = EXCLUDED.model,
+       prompt = EXCLUDED.prompt,
+       completion = EXCLUDED.completion,
+       temperature = EXCLUDED.temperature,
+       parameters = EXCLUDED.parameters,
+       prompt_tokens = EXCLUDED.prompt_tokens,
+       completion_tokens = EXCLUDED.completion_tokens,
+       total_tokens = EXCLUDED.total_tokens,
+       cost_usd = EXCLUDED.cost_usd,
+       latency_ms = EXCLUDED.latency_ms,
+       started_at = EXCLUDED.started_at
+     WHERE llm_calls.step_id = EXCLUDED.step_id`,
+    [
+      call.call_id,
+      call.step_id,
+      call.provider,
+      call.model,
+      call.prompt === undefined ? null : JSON.stringify(call.prompt),
+      call.completion,
+      call.temperature,
+      JSON.stringify(call.parameters || {}),
+      call.prompt_tokens,
+      call.completion_tokens,
+      // Derive the total when only the parts are reported
+      call.total_tokens ??
+        (call.prompt_tokens !== undefined && call.completion_tokens !== undefined
+          ? call.prompt_tokens + call.completion_tokens
+          : undefined),
+      call.cost_usd,
+      call.latency_ms,
+      call.started_at,
+    ]
+  );
+}
+
+/**
+ * Get the LLM calls recorded for a step, in call order.
+ */
+export async function getLLMCallsByStep(stepId: string): Promise<LLMCallRecord[]> {
+  const result = await db.query(
+    `SELECT call_id, step_id, provider, model, prompt, completion, temperature::float AS temperature, parameters,
+            prompt_tokens, completion_tokens, total_tokens, cost_usd::float AS cost_usd,
+            latency_ms::float AS latency_ms, started_at
+     FROM llm_calls WHERE step_id = $1
+     ORDER BY COALESCE(started_at, created_at) ASC`,
+    [stepId]
+  );
+
+  return result.rows.map((row) => ({
+    call_id: row.call_id,
+    step_id: row.step_id,
+    provider: row.provider ?? undefined,
+    model: row.model,
+    prompt: row.prompt ?? undefined,
+    completion: row.completion ?? undefined,
+    temperature: row.temperature ?? undefined,
+    parameters: row.parameters || {},
+    prompt_tokens: row.prompt_tokens ?? undefined,
+    completion_tokens: row.completion_tokens ?? undefined,
+    total_tokens: row.total_tokens ?? undefined,
+    cost_usd: row.cost_usd ?? undefined,
+    latency_ms: row.latency_ms ?? undefined,
+    started_at: row.started_at ?? undefined,
+  }));
+}
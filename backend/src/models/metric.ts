@@ -0,0 +1,90 @@
+/**
+ * Metric model - data access layer.
+ * Custom numeric values recorded on runs and steps (latency, cost, similarity thresholds, ...).
+ */
+
+import { db } from '../db/connection';
+
+export interface MetricRecord {
+  metric_id: string;
+  run_id: string;
+  step_id?: string; // unset for run-level metrics
+  name: string;
+  value: number;
+  unit?: string;
+  recorded_at: string;
+}
+
+export interface MetricAggregateFilters {
+  project_id?: string;
+  pipeline?: string;
+  step_name?: string;
+  name?: string;
+  from?: string;
+  to?: string;
+  bucket_seconds?: number; // default: 1 hour
+}
+
+export async function recordMetric(metric: MetricRecord): Promise<void> {
+  await db.query(
+    `INSERT INTO metrics (metric_id, run_id, step_id, name, value, unit, recorded_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)
+     ON CONFLICT (metric_id) DO NOTHING`,
+    [metric.metric_id, metric.run_id, metric.step_id, metric.name, metric.value, metric.unit, metric.recorded_at]
+  );
+}
+
+/**
+ * Aggregate metric values into fixed time buckets.
+ * Returns one row per metric name and bucket with count, avg, p50, p95 and max,
+ * ordered by name then bucket start.
+ */
+export async function aggregateMetrics(filters: MetricAggregateFilters = {}): Promise<any[]> {
+  const bucketSeconds = filters.bucket_seconds || 3600;
+
+  let query = `SELECT
+       m.name,
+       MAX(m.unit) AS unit,
+       to_timestamp(floor(EXTRACT(EPOCH FROM m.recorded_at) / $1) * $1) AT TIME ZONE 'UTC' AS bucket_start,
+       COUNT(*)::int AS count,
+       AVG(m.value)::float AS avg,
+       percentile_cont(0.5) WITHIN GROUP (ORDER BY m.value)::float AS p50,
+       percentile_cont(0.95) WITHIN GROUP (ORDER BY m.value)::float AS p95,
+       MAX(m.value)::float AS max
+     FROM metrics m
+     JOIN runs r ON r.run_id = m.run_id
+     LEFT JOIN steps s ON s.step_id = m.step_id
+     WHERE 1=1`;
+  const values: any[] = [bucketSeconds];
+  let paramCount = 2;
+
+  if (filters.project_id) {
+    query += ` AND r.project_id = $${paramCount++}`;
+    values.push(filters.project_id);
+  }
+  if (filters.pipeline) {
+    query += ` AND r.pipeline = $${paramCount++}`;
+    values.push(filters.pipeline);
+  }
+  if (filters.step_name) {
+    query += ` AND s.name = $${paramCount++}`;
+    values.push(filters.step_name);
+  }
+  if (filters.name) {
+    query += ` AND m.name = $${paramCount++}`;
+    values.push(filters.name);
+  }
+  if (filters.from) {
+    query += ` AND m.recorded_at >= $${paramCount++}`;
+    values.push(filters.from);
+  }
+  if (filters.to) {
+    query += ` AND m.recorded_at < $${paramCount++}`;
+    values.push(filters.to);
+  }
+
+  query += ` GROUP BY m.name, bucket_start ORDER BY m.name ASC, bucket_start ASC`;
+
+  const result = await db.query(query, values);
+  return result.rows;
+}
@@ -0,0 +1,132 @@
+/**
+ * Project and API key model - data access layer.
+ * A project is a tenant: its runs and steps are only visible to its own keys.
+ * Keys are random tokens; only their SHA-256 hash is stored, so a key is shown once, on creation.
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { db } from '../db/connection';
+
+// Owns data written without an API key (and everything written before projects existed)
+export const DEFAULT_PROJECT_ID = '00000000-0000-0000-0000-000000000000';
+
+export type ApiKeyScope = 'ingest' | 'read' | 'admin';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['ingest', 'read', 'admin'];
+
+export interface ProjectRecord {
+  project_id: string;
+  name: string;
+  created_at?: string;
+}
+
+export interface ApiKeyRecord {
+  key_id: string;
+  project_id: string;
+  name: string;
+  key_prefix: string;
+  scopes: ApiKeyScope[];
+  created_at?: string;
+  revoked_at?: string;
+}
+
+// Keys are checked on every request; cache lookups briefly (revocation elsewhere takes up to this long)
+const CACHE_TTL_MS = 30000;
+
+const keyCache = new Map<string, { key: ApiKeyRecord; loadedAt: number }>();
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toApiKeyRecord(row: any): ApiKeyRecord {
+  return {
+    key_id: row.key_id,
+    project_id: row.project_id,
+    name: row.name,
+    key_prefix: row.key_prefix,
+    scopes: row.scopes,
+    created_at: row.created_at,
+    revoked_at: row.revoked_at ?? undefined,
+  };
+}
+
+export async function getProjectByName(name: string): Promise<ProjectRecord | null> {
+  const result = await db.query(`SELECT project_id, name, created_at FROM projects WHERE name = $1`, [name]);
+  return result.rows[0] || null;
+}
+
+/**
+ * Create a project, or return the existing one with that name.
+ */
+export async function ensureProject(name: string): Promise<ProjectRecord> {
+  await db.query(
+    `INSERT INTO projects (project_id, name) VALUES ($1, $2)
+     ON CONFLICT (name) DO NOTHING`,
+    [randomUUID(), name]
+  );
+  return (await getProjectByName(name))!;
+}
+
+/**
+ * Create an API key for a project.
+ * Returns the key itself (never stored, so it cannot be shown again) and its record.
+ */
+export async function createApiKey(
+  projectId: string,
+  name: string,
+  scopes: ApiKeyScope[]
+): Promise<{ key: string; record: ApiKeyRecord }> {
+  const key = `xray_${randomBytes(24).toString('base64url')}`;
+  const result = await db.query(
+    `INSERT INTO api_keys (key_id, project_id, name, key_prefix, key_hash, scopes)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING key_id, project_id, name, key_prefix, scopes, created_at, revoked_at`,
+    [randomUUID(), projectId, name, key.slice(0, 12), hashApiKey(key), Array.from(new Set(scopes))]
+  );
+  return { key, record: toApiKeyRecord(result.rows[0]) };
+}
+
+export async function listApiKeys(projectId: string): Promise<ApiKeyRecord[]> {
+  const result = await db.query(
+    `SELECT key_id, project_id, name, key_prefix, scopes, created_at, revoked_at
+     FROM api_keys WHERE project_id = $1
+     ORDER BY created_at DESC`,
+    [projectId]
+  );
+  return result.rows.map(toApiKeyRecord);
+}
+
+/**
+ * Revoke a project's key. Returns false if the project has no such (active) key.
+ */
+export async function revokeApiKey(projectId: string, keyId: string): Promise<boolean> {
+  const result = await db.query(
+    `UPDATE api_keys SET revoked_at = NOW()
+     WHERE key_id = $1 AND project_id = $2 AND revoked_at IS NULL`,
+    [keyId, projectId]
+  );
+  keyCache.clear();
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * Look up an active key by its plaintext value; null if unknown or revoked.
+ */
+export async function findApiKey(key: string): Promise<ApiKeyRecord | null> {
+  const keyHash = hashApiKey(key);
+  const cached = keyCache.get(keyHash);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.key;
+
+  const result = await db.query(
+    `SELECT key_id, project_id, name, key_prefix, scopes, created_at, revoked_at
+     FROM api_keys WHERE key_hash = $1 AND revoked_at IS NULL`,
+    [keyHash]
+  );
+  if (result.rows.length === 0) return null;
+
+  // Only known keys are cached, so random guesses cannot grow the cache
+  const found = toApiKeyRecord(result.rows[0]);
+  keyCache.set(keyHash, { key: found, loadedAt: Date.now() });
+  return found;
+}
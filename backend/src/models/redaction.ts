@@ -0,0 +1,100 @@
+/**
+ * Server-side PII redaction for run inputs.
+ *
+ * Enforced on write regardless of client configuration, so a misconfigured SDK
+ * cannot store PII in runs.input. Configured via environment variables:
+ *   XRAY_REDACT_INPUT_DROP      comma-separated paths inside the input to remove (e.g. user.email,payment.*)
+ *   XRAY_REDACT_INPUT_HASH      comma-separated paths whose values are replaced by a SHA-256 hash
+ *   XRAY_REDACT_INPUT_PATTERNS  comma-separated presets (email, phone, card) masked in every string
+ */
+
+import { createHash } from 'crypto';
+
+const PRESETS: Record<string, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  card: /\b(?:\d[ -]?){12,18}\d\b/g,
+  // +country numbers, or grouped (415) 555-0123 / 415-555-0123; never decimals, dates or bare digit runs
+  phone: /(?<![\w+])(?:\+(?=(?:[ ()-]*\d){7})\d{1,3}[ -]?(?:\(\d{1,4}\)[ -]?)?\d{1,4}(?:[ -]?\d{2,4}){1,4}|(?:\(\d{3}\) ?|\d{3}[ -])\d{3}[ -]\d{4})(?!\.?\d)/g,
+};
+
+const MASK = '[REDACTED]';
+
+function parseList(value?: string): string[] {
+  return (value || '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+const dropPaths = parseList(process.env.XRAY_REDACT_INPUT_DROP).map((p) => p.split('.'));
+const hashPaths = parseList(process.env.XRAY_REDACT_INPUT_HASH).map((p) => p.split('.'));
+// Cards before phones so card numbers are not half-masked as phone numbers
+const patterns = ['card', 'email', 'phone']
+  .filter((name) => parseList(process.env.XRAY_REDACT_INPUT_PATTERNS).includes(name))
+  .map((name) => PRESETS[name]);
+
+const unknownPatterns = parseList(process.env.XRAY_REDACT_INPUT_PATTERNS).filter((name) => !PRESETS[name]);
+if (unknownPatterns.length > 0) {
+  console.warn(`Warning: Unknown XRAY_REDACT_INPUT_PATTERNS ignored: ${unknownPatterns.join(', ')}`);
+}
+
+/**
+ * Apply the configured redaction to a run input. Returns a new value; the input is not mutated.
+ */
+export function redactRunInput(input: any): any {
+  let result = patterns.length > 0 ? maskStrings(input) : input;
+  for (const path of dropPaths) result = transformPath(result, path, () => undefined);
+  for (const path of hashPaths) result = transformPath(result, path, hashValue);
+  return result;
+}
+
+function maskStrings(value: any): any {
+  if (typeof value === 'string') return patterns.reduce((s, pattern) => s.replace(pattern, MASK), value);
+  if (Array.isArray(value)) return value.map(maskStrings);
+  if (value && typeof value === 'object') {
+    const result: Record<string, any> = {};
+    for (const [k, v] of Object.entries(value)) result[k] = maskStrings(v);
+    return result;
+  }
+  return value;
+}
+
+// Same format as the SDK's hashed paths, so client- and server-hashed values match
+function hashValue(value: any): string | undefined {
+  if (value === undefined) return undefined;
+  // Already hashed by the SDK
+  if (typeof value === 'string' && value.startsWith('sha256:')) return value;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `sha256:${createHash('sha256').update(text).digest('hex')}`;
+}
+
+/**
+ * Copy-on-write update of the value(s) at a path. '*' matches every key/element.
+ * Returning undefined from fn removes the key.
+ */
+function transformPath(value: any, path: string[], fn: (v: any) => any): any {
+  if (path.length === 0) return fn(value);
+  if (!value || typeof value !== 'object') return value;
+
+  const [head, ...rest] = path;
+
+  if (Array.isArray(value)) {
+    if (head === '*') return value.map((v) => transformPath(v, rest, fn));
+    const index = Number(head);
+    if (!Number.isInteger(index) || index >= value.length) return value;
+    const copy = [...value];
+    copy[index] = transformPath(copy[index], rest, fn);
+    return copy;
+  }
+
+  const keys = head === '*' ? Object.keys(value) : head in value ? [head] : [];
+  if (keys.length === 0) return value;
+
+  const copy: Record<string, any> = { ...value };
+  for (const key of keys) {
+    const next = transformPath(copy[key], rest, fn);
+    if (next === undefined) delete copy[key];
+    else copy[key] = next;
+  }
+  return copy;
+}
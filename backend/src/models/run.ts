@@ -2,7 +2,16 @@
  * Run model - data access layer.
  */
 
-import { pool } from '../db/connection';
+import { db, outsideTransaction } from '../db/connection';
+import { ErrorDetails, computeErrorFingerprint } from './error';
+import { redactRunInput } from './redaction';
+import { DEFAULT_PROJECT_ID } from './project';
+
+// Run duration in milliseconds (NULL while the run is still running)
+const DURATION_MS = `(EXTRACT(EPOCH FROM (ended_at - started_at)) * 1000)::float`;
+
+const RUN_COLUMNS = `run_id, pipeline, input, started_at, ended_at, status, ${DURATION_MS} AS duration_ms,
+       error, error_class, error_stack, error_attributes, error_fingerprint, failed_step_id, tags, attributes, project_id`;
 
 export interface RunRecord {
   run_id: string;
@@ -11,40 +20,135 @@ export interface RunRecord {
   started_at: string;
   ended_at?: string;
   status: 'running' | 'success' | 'error';
+  duration_ms?: number;
+  error?: string;
+  error_class?: string;
+  error_stack?: string;
+  error_attributes?: Record<string, any>;
+  error_fingerprint?: string;
+  failed_step_id?: string;
+  tags?: string[];
+  attributes?: Record<string, any>;
+  project_id?: string;
+}
+
+/**
+ * Match on a value inside a JSONB column (`attributes` or `input`).
+ * path is the dot-separated key path split into segments; 'equals' compares the value
+ * (as text, or as the number/boolean it parses to), 'contains' is a case-insensitive substring match.
+ */
+export interface JsonPathFilter {
+  path: string[];
+  value: string;
+  match: 'equals' | 'contains';
+}
+
+/**
+ * Build the nested object `{ a: { b: value } }` for path ['a', 'b'],
+ * so equality can use JSONB containment (and the GIN index).
+ */
+function containmentFor(path: string[], value: any): string {
+  return JSON.stringify(path.reduceRight<any>((inner, key) => ({ [key]: inner }), value));
+}
+
+// Query string values are text; also match the number or boolean they spell
+function typedValueOf(value: string): number | boolean | undefined {
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  return undefined;
+}
+
+function toRunRecord(row: any): RunRecord {
+  return {
+    run_id: row.run_id,
+    pipeline: row.pipeline,
+    input: row.input,
+    started_at: row.started_at,
+    ended_at: row.ended_at,
+    status: row.status,
+    duration_ms: row.duration_ms ?? undefined,
+    error: row.error ?? undefined,
+    error_class: row.error_class ?? undefined,
+    error_stack: row.error_stack ?? undefined,
+    error_attributes: row.error_attributes ?? undefined,
+    error_fingerprint: row.error_fingerprint ?? undefined,
+    failed_step_id: row.failed_step_id ?? undefined,
+    tags: row.tags || [],
+    attributes: row.attributes || {},
+    project_id: row.project_id,
+  };
 }
 
 export async function createRun(run: RunRecord): Promise<void> {
-  await pool.query(
-    `INSERT INTO runs (run_id, pipeline, input, started_at, status)
-     VALUES ($1, $2, $3, $4, $5)
+  await db.query(
+    `INSERT INTO runs (run_id, pipeline, input, started_at, status, tags, attributes, project_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
      ON CONFLICT (run_id) DO UPDATE SET
        ended_at = EXCLUDED.ended_at,
-       status = EXCLUDED.status`,
-    [run.run_id, run.pipeline, JSON.stringify(run.input), run.started_at, run.status]
+       status = EXCLUDED.status,
+       tags = EXCLUDED.tags,
+       attributes = EXCLUDED.attributes
+     WHERE runs.project_id = EXCLUDED.project_id`,
+    [
+      run.run_id,
+      run.pipeline,
+      JSON.stringify(redactRunInput(run.input)),
+      run.started_at,
+      run.status,
+      run.tags || [],
+      JSON.stringify(run.attributes || {}),
+      run.project_id || DEFAULT_PROJECT_ID,
+    ]
   );
 }
 
 /**
- * Ensure run exists. Creates a placeholder run if it doesn't exist.
+ * Throw if the run exists in another project.
+ * Run ids come from clients, so writes check ownership before touching an existing run.
+ */
+export async function assertRunInProject(runId: string, projectId: string = DEFAULT_PROJECT_ID): Promise<void> {
+  const result = await db.query(`SELECT project_id FROM runs WHERE run_id = $1`, [runId]);
+  if (result.rows.length > 0 && result.rows[0].project_id !== projectId) {
+    throw new Error(`Run ${runId} belongs to another project`);
+  }
+}
+
+/**
+ * Ensure run exists. Creates a placeholder run in the project if it doesn't exist.
  * Used to handle race conditions where step arrives before run creation.
+ * Throws if the run belongs to another project.
  */
-export async function ensureRunExists(runId: string, pipeline?: string): Promise<void> {
-  try {
-    const existing = await getRun(runId);
-    if (existing) return;
+export async function ensureRunExists(
+  runId: string,
+  pipeline?: string,
+  projectId: string = DEFAULT_PROJECT_ID
+): Promise<void> {
+  const existing = await getRun(runId);
+  if (existing) {
+    if (existing.project_id !== projectId) {
+      throw new Error(`Run ${runId} belongs to another project`);
+    }
+    return;
+  }
 
+  try {
     // Create a placeholder run - the actual run creation might be in flight
-    await pool.query(
-      `INSERT INTO runs (run_id, pipeline, input, started_at, status)
-       VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (run_id) DO NOTHING`,
-      [
-        runId,
-        pipeline || 'unknown',
-        JSON.stringify({ auto_created: true }),
-        new Date().toISOString(),
-        'running',
-      ]
+    // (committed on its own: inside a group-commit batch it would lock the row until the batch commits)
+    await outsideTransaction(() =>
+      db.query(
+        `INSERT INTO runs (run_id, pipeline, input, started_at, status, project_id)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         ON CONFLICT (run_id) DO NOTHING`,
+        [
+          runId,
+          pipeline || 'unknown',
+          JSON.stringify({ auto_created: true }),
+          new Date().toISOString(),
+          'running',
+          projectId,
+        ]
+      )
     );
   } catch (error: any) {
     // Log but don't throw - the actual run creation will handle it
@@ -53,7 +157,11 @@ export async function ensureRunExists(runId: string, pipeline?: string): Promise
   }
 }
 
-export async function updateRun(runId: string, updates: { ended_at?: string; status?: string }): Promise<void> {
+export async function updateRun(
+  runId: string,
+  updates: { ended_at?: string; status?: string; failed_step_id?: string } & ErrorDetails,
+  projectId: string = DEFAULT_PROJECT_ID
+): Promise<void> {
   const updatesList: string[] = [];
   const values: any[] = [];
   let paramCount = 1;
@@ -66,41 +174,66 @@ export async function updateRun(runId: string, updates: { ended_at?: string; sta
     updatesList.push(`status = $${paramCount++}`);
     values.push(updates.status);
   }
+  if (updates.error || updates.error_class) {
+    updatesList.push(`error = $${paramCount++}`);
+    values.push(updates.error);
+    updatesList.push(`error_class = $${paramCount++}`);
+    values.push(updates.error_class);
+    updatesList.push(`error_stack = $${paramCount++}`);
+    values.push(updates.error_stack);
+    updatesList.push(`error_attributes = $${paramCount++}`);
+    values.push(updates.error_attributes ? JSON.stringify(updates.error_attributes) : null);
+    updatesList.push(`error_fingerprint = $${paramCount++}`);
+    values.push(computeErrorFingerprint(updates));
+  }
+  if (updates.failed_step_id) {
+    updatesList.push(`failed_step_id = $${paramCount++}`);
+    values.push(updates.failed_step_id);
+  }
 
   if (updatesList.length === 0) return;
 
-  values.push(runId);
-  await pool.query(
-    `UPDATE runs SET ${updatesList.join(', ')} WHERE run_id = $${paramCount}`,
+  values.push(runId, projectId);
+  await db.query(
+    `UPDATE runs SET ${updatesList.join(', ')} WHERE run_id = $${paramCount++} AND project_id = $${paramCount}`,
     values
   );
 }
 
-export async function getRun(runId: string): Promise<RunRecord | null> {
-  const result = await pool.query(
-    `SELECT run_id, pipeline, input, started_at, ended_at, status
-     FROM runs WHERE run_id = $1`,
-    [runId]
+/**
+ * Get a run; with projectId, only if it belongs to that project.
+ */
+export async function getRun(runId: string, projectId?: string): Promise<RunRecord | null> {
+  const result = await db.query(
+    `SELECT ${RUN_COLUMNS}
+     FROM runs WHERE run_id = $1 AND ($2::uuid IS NULL OR project_id = $2)`,
+    [runId, projectId ?? null]
   );
 
   if (result.rows.length === 0) return null;
 
-  const row = result.rows[0];
-  return {
-    run_id: row.run_id,
-    pipeline: row.pipeline,
-    input: row.input,
-    started_at: row.started_at,
-    ended_at: row.ended_at,
-    status: row.status,
-  };
+  return toRunRecord(result.rows[0]);
 }
 
-export async function listRuns(filters?: { pipeline?: string; status?: string; limit?: number }): Promise<RunRecord[]> {
-  let query = `SELECT run_id, pipeline, input, started_at, ended_at, status FROM runs WHERE 1=1`;
+export async function listRuns(filters?: {
+  project_id?: string;
+  pipeline?: string;
+  status?: string;
+  error_fingerprint?: string;
+  tags?: string[]; // runs must carry every tag
+  attributes?: JsonPathFilter[];
+  input?: JsonPathFilter[];
+  limit?: number;
+}): Promise<RunRecord[]> {
+  let query = `SELECT ${RUN_COLUMNS} FROM runs WHERE 1=1`;
   const values: any[] = [];
   let paramCount = 1;
 
+  if (filters?.project_id) {
+    query += ` AND project_id = $${paramCount++}`;
+    values.push(filters.project_id);
+  }
+
   if (filters?.pipeline) {
     query += ` AND pipeline = $${paramCount++}`;
     values.push(filters.pipeline);
@@ -111,6 +244,37 @@ export async function listRuns(filters?: { pipeline?: string; status?: string; l
     values.push(filters.status);
   }
 
+  if (filters?.error_fingerprint) {
+    query += ` AND error_fingerprint = $${paramCount++}`;
+    values.push(filters.error_fingerprint);
+  }
+
+  if (filters?.tags && filters.tags.length > 0) {
+    query += ` AND tags @> $${paramCount++}::text[]`;
+    values.push(filters.tags);
+  }
+
+  const jsonFilters: Array<[string, JsonPathFilter]> = [
+    ...(filters?.attributes || []).map((f): [string, JsonPathFilter] => ['attributes', f]),
+    ...(filters?.input || []).map((f): [string, JsonPathFilter] => ['input', f]),
+  ];
+  for (const [column, filter] of jsonFilters) {
+    if (filter.match === 'contains') {
+      query += ` AND strpos(lower(${column} #>> $${paramCount++}::text[]), lower($${paramCount++})) > 0`;
+      values.push(filter.path, filter.value);
+      continue;
+    }
+
+    const typed = typedValueOf(filter.value);
+    if (typed === undefined) {
+      query += ` AND ${column} @> $${paramCount++}::jsonb`;
+      values.push(containmentFor(filter.path, filter.value));
+    } else {
+      query += ` AND (${column} @> $${paramCount++}::jsonb OR ${column} @> $${paramCount++}::jsonb)`;
+      values.push(containmentFor(filter.path, filter.value), containmentFor(filter.path, typed));
+    }
+  }
+
   query += ` ORDER BY started_at DESC`;
 
   if (filters?.limit) {
@@ -118,13 +282,6 @@ export async function listRuns(filters?: { pipeline?: string; status?: string; l
     values.push(filters.limit);
   }
 
-  const result = await pool.query(query, values);
-  return result.rows.map((row) => ({
-    run_id: row.run_id,
-    pipeline: row.pipeline,
-    input: row.input,
-    started_at: row.started_at,
-    ended_at: row.ended_at,
-    status: row.status,
-  }));
+  const result = await db.query(query, values);
+  return result.rows.map(toRunRecord);
 }
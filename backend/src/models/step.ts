@@ -2,9 +2,18 @@
  * Step model - data access layer.
  */
 
-import { pool } from '../db/connection';
+import { db, outsideTransaction } from '../db/connection';
+import { ErrorDetails, computeErrorFingerprint } from './error';
+import type { StepCategory } from './stepType';
+import { DEFAULT_PROJECT_ID } from './project';
 
-export type StepType = 'filter' | 'rank' | 'generate' | 'select';
+// Step duration in milliseconds (NULL until both timestamps are known)
+const DURATION_MS = `(EXTRACT(EPOCH FROM (ended_at - started_at)) * 1000)::float`;
+
+// Any type registered in step_types (see models/stepType)
+export type StepType = string;
+
+export type StepStatus = 'running' | 'success' | 'error';
 
 export interface StepRecord {
   step_id: string;
@@ -14,6 +23,41 @@ export interface StepRecord {
   input_count?: number;
   output_count?: number;
   metadata: any;
+  started_at?: string;
+  ended_at?: string;
+  status?: StepStatus;
+  error?: string;
+  error_class?: string;
+  error_stack?: string;
+  error_attributes?: Record<string, any>;
+  error_fingerprint?: string;
+  duration_ms?: number;
+  parent_step_ids?: string[];
+  project_id?: string;
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether value is a valid parent_step_ids list (an array of step UUIDs; the column is UUID[]).
+ */
+export function isStepIdList(value: any): value is string[] {
+  return Array.isArray(value) && value.every((id) => typeof id === 'string' && UUID.test(id));
+}
+
+// Breakdown counts are stored in JSONB and read back as INTEGER (see aggregateRejectionReasons)
+const MAX_COUNT = 2147483647;
+
+/**
+ * Whether value is a breakdown of counts: non-negative integers keyed by reason.
+ */
+export function isCountMap(value: any): value is Record<string, number> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((v) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= MAX_COUNT)
+  );
 }
 
 export interface StepSummaryRecord {
@@ -21,19 +65,24 @@ export interface StepSummaryRecord {
   rejected: number;
   accepted: number;
   rejection_breakdown: Record<string, number>;
+  reason_code_breakdown?: Record<string, number>;
 }
 
 export async function createStep(step: StepRecord): Promise<void> {
-  await pool.query(
-    `INSERT INTO steps (step_id, run_id, name, type, input_count, output_count, metadata)
-     VALUES ($1, $2, $3, $4, $5, $6, $7)
+  await db.query(
+    `INSERT INTO steps (step_id, run_id, name, type, input_count, output_count, metadata, started_at, status, parent_step_ids, project_id)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
      ON CONFLICT (step_id) DO UPDATE SET
        run_id = EXCLUDED.run_id,
        name = EXCLUDED.name,
        type = EXCLUDED.type,
        input_count = COALESCE(EXCLUDED.input_count, steps.input_count),
        output_count = COALESCE(EXCLUDED.output_count, steps.output_count),
-       metadata = EXCLUDED.metadata`,
+       metadata = EXCLUDED.metadata,
+       started_at = COALESCE(EXCLUDED.started_at, steps.started_at),
+       status = COALESCE(steps.status, EXCLUDED.status),
+       parent_step_ids = EXCLUDED.parent_step_ids
+     WHERE steps.project_id = EXCLUDED.project_id`,
     [
       step.step_id,
       step.run_id,
@@ -42,33 +91,90 @@ export async function createStep(step: StepRecord): Promise<void> {
       step.input_count,
       step.output_count,
       JSON.stringify(step.metadata),
+      step.started_at,
+      step.status || 'running',
+      step.parent_step_ids || [],
+      step.project_id || DEFAULT_PROJECT_ID,
+    ]
+  );
+}
+
+/**
+ * Record the end of a step.
+ * The end event may arrive before the create event, so status written here
+ * is never overwritten by createStep.
+ */
+export async function endStep(
+  stepId: string,
+  updates: { ended_at?: string; status?: StepStatus } & ErrorDetails,
+  projectId: string = DEFAULT_PROJECT_ID
+): Promise<void> {
+  const hasError = !!(updates.error || updates.error_class);
+
+  await db.query(
+    `UPDATE steps SET
+       ended_at = COALESCE($1, NOW()),
+       status = COALESCE($2, 'success'),
+       error = $3,
+       error_class = $4,
+       error_stack = $5,
+       error_attributes = $6,
+       error_fingerprint = $7
+     WHERE step_id = $8 AND project_id = $9`,
+    [
+      updates.ended_at,
+      updates.status,
+      updates.error,
+      updates.error_class,
+      updates.error_stack,
+      updates.error_attributes ? JSON.stringify(updates.error_attributes) : null,
+      hasError ? computeErrorFingerprint(updates) : null,
+      stepId,
+      projectId,
     ]
   );
 }
 
 /**
- * Ensure step exists. Creates a placeholder step if it doesn't exist.
+ * Ensure step exists. Creates a placeholder step in the project if it doesn't exist
+ * (only when the run is known).
  * Used to handle race conditions where summary/candidate arrives before step creation.
+ * Throws if the step belongs to another project.
  */
-export async function ensureStepExists(stepId: string, runId: string): Promise<void> {
-  try {
-    const existing = await getStep(stepId);
-    if (existing) return;
+export async function ensureStepExists(
+  stepId: string,
+  runId: string | undefined,
+  projectId: string = DEFAULT_PROJECT_ID
+): Promise<void> {
+  const existing = await getStep(stepId);
+  if (existing) {
+    if (existing.project_id !== projectId) {
+      throw new Error(`Step ${stepId} belongs to another project`);
+    }
+    return;
+  }
+
+  if (!runId) return;
 
+  try {
     // Create a placeholder step - the actual step creation might be in flight
     // We'll use minimal info and let the real step creation update it
-    // If run doesn't exist, this will fail silently (run should exist by this point)
-    await pool.query(
-      `INSERT INTO steps (step_id, run_id, name, type, metadata)
-       VALUES ($1, $2, $3, $4, $5)
-       ON CONFLICT (step_id) DO NOTHING`,
-      [
-        stepId,
-        runId,
-        'auto-created', // Placeholder name
-        'generate', // Default type (least restrictive)
-        JSON.stringify({ auto_created: true }),
-      ]
+    // If the run doesn't exist (or is another project's), nothing is inserted
+    await outsideTransaction(() =>
+      db.query(
+        `INSERT INTO steps (step_id, run_id, name, type, metadata, project_id)
+         SELECT $1, $2, $3, $4, $5, $6
+         WHERE EXISTS (SELECT 1 FROM runs WHERE run_id = $2 AND project_id = $6)
+         ON CONFLICT (step_id) DO NOTHING`,
+        [
+          stepId,
+          runId,
+          'auto-created', // Placeholder name
+          'generate', // Default type (least restrictive)
+          JSON.stringify({ auto_created: true }),
+          projectId,
+        ]
+      )
     );
   } catch (error: any) {
     // If run doesn't exist or other error, log but don't throw
@@ -80,6 +186,18 @@ export async function ensureStepExists(stepId: string, runId: string): Promise<v
   }
 }
 
+/**
+ * Return the given step ids that belong to a project other than projectId.
+ */
+export async function findStepsInOtherProjects(stepIds: string[], projectId: string = DEFAULT_PROJECT_ID): Promise<string[]> {
+  if (stepIds.length === 0) return [];
+  const result = await db.query(
+    `SELECT step_id FROM steps WHERE step_id = ANY($1::uuid[]) AND project_id <> $2`,
+    [stepIds, projectId]
+  );
+  return result.rows.map((row) => row.step_id);
+}
+
 export async function updateStepSummary(
   stepId: string,
   summary: StepSummaryRecord,
@@ -87,19 +205,21 @@ export async function updateStepSummary(
   outputCount?: number
 ): Promise<void> {
   // Update step_summaries table
-  await pool.query(
-    `INSERT INTO step_summaries (step_id, rejected, accepted, rejection_breakdown, updated_at)
-     VALUES ($1, $2, $3, $4, NOW())
+  await db.query(
+    `INSERT INTO step_summaries (step_id, rejected, accepted, rejection_breakdown, reason_code_breakdown, updated_at)
+     VALUES ($1, $2, $3, $4, $5, NOW())
      ON CONFLICT (step_id) DO UPDATE SET
        rejected = EXCLUDED.rejected,
        accepted = EXCLUDED.accepted,
        rejection_breakdown = EXCLUDED.rejection_breakdown,
+       reason_code_breakdown = EXCLUDED.reason_code_breakdown,
        updated_at = NOW()`,
     [
       stepId,
       summary.rejected,
       summary.accepted,
       JSON.stringify(summary.rejection_breakdown),
+      JSON.stringify(summary.reason_code_breakdown || {}),
     ]
   );
 
@@ -119,18 +239,24 @@ export async function updateStepSummary(
     }
 
     values.push(stepId);
-    await pool.query(
+    await db.query(
       `UPDATE steps SET ${updates.join(', ')} WHERE step_id = $${paramCount}`,
       values
     );
   }
 }
 
-export async function getStep(stepId: string): Promise<StepRecord | null> {
-  const result = await pool.query(
-    `SELECT step_id, run_id, name, type, input_count, output_count, metadata
-     FROM steps WHERE step_id = $1`,
-    [stepId]
+/**
+ * Get a step; with projectId, only if it belongs to that project.
+ */
+export async function getStep(stepId: string, projectId?: string): Promise<StepRecord | null> {
+  const result = await db.query(
+    `SELECT step_id, run_id, name, type, input_count, output_count, metadata,
+            started_at, ended_at, status, error, error_class, error_stack, error_attributes, error_fingerprint,
+            ${DURATION_MS} AS duration_ms,
+            parent_step_ids, project_id
+     FROM steps WHERE step_id = $1 AND ($2::uuid IS NULL OR project_id = $2)`,
+    [stepId, projectId ?? null]
   );
 
   if (result.rows.length === 0) return null;
@@ -144,14 +270,40 @@ export async function getStep(stepId: string): Promise<StepRecord | null> {
     input_count: row.input_count,
     output_count: row.output_count,
     metadata: row.metadata,
+    started_at: row.started_at,
+    ended_at: row.ended_at,
+    status: row.status,
+    error: row.error,
+    error_class: row.error_class ?? undefined,
+    error_stack: row.error_stack ?? undefined,
+    error_attributes: row.error_attributes ?? undefined,
+    error_fingerprint: row.error_fingerprint ?? undefined,
+    duration_ms: row.duration_ms ?? undefined,
+    parent_step_ids: row.parent_step_ids || [],
+    project_id: row.project_id,
   };
 }
 
-export async function listSteps(filters?: { run_id?: string; type?: StepType; name?: string }): Promise<StepRecord[]> {
-  let query = `SELECT step_id, run_id, name, type, input_count, output_count, metadata FROM steps WHERE 1=1`;
+export async function listSteps(filters?: {
+  project_id?: string;
+  run_id?: string;
+  type?: StepType;
+  category?: string;
+  name?: string;
+}): Promise<StepRecord[]> {
+  let query = `SELECT step_id, run_id, name, type, input_count, output_count, metadata,
+                      started_at, ended_at, status, error, error_class, error_stack, error_attributes, error_fingerprint,
+                      ${DURATION_MS} AS duration_ms,
+                      parent_step_ids, project_id
+               FROM steps WHERE 1=1`;
   const values: any[] = [];
   let paramCount = 1;
 
+  if (filters?.project_id) {
+    query += ` AND project_id = $${paramCount++}`;
+    values.push(filters.project_id);
+  }
+
   if (filters?.run_id) {
     query += ` AND run_id = $${paramCount++}`;
     values.push(filters.run_id);
@@ -162,14 +314,19 @@ export async function listSteps(filters?: { run_id?: string; type?: StepType; na
     values.push(filters.type);
   }
 
+  if (filters?.category) {
+    query += ` AND type IN (SELECT name FROM step_types WHERE category = $${paramCount++})`;
+    values.push(filters.category);
+  }
+
   if (filters?.name) {
     query += ` AND name = $${paramCount++}`;
     values.push(filters.name);
   }
 
-  query += ` ORDER BY created_at ASC`;
+  query += ` ORDER BY COALESCE(started_at, created_at) ASC`;
 
-  const result = await pool.query(query, values);
+  const result = await db.query(query, values);
   return result.rows.map((row) => ({
     step_id: row.step_id,
     run_id: row.run_id,
@@ -178,6 +335,17 @@ export async function listSteps(filters?: { run_id?: string; type?: StepType; na
     input_count: row.input_count,
     output_count: row.output_count,
     metadata: row.metadata,
+    started_at: row.started_at,
+    ended_at: row.ended_at,
+    status: row.status,
+    error: row.error,
+    error_class: row.error_class ?? undefined,
+    error_stack: row.error_stack ?? undefined,
+    error_attributes: row.error_attributes ?? undefined,
+    error_fingerprint: row.error_fingerprint ?? undefined,
+    duration_ms: row.duration_ms ?? undefined,
+    parent_step_ids: row.parent_step_ids || [],
+    project_id: row.project_id,
   }));
 }
 
@@ -186,8 +354,8 @@ export async function listSteps(filters?: { run_id?: string; type?: StepType; na
  * This is a cross-pipeline query example.
  */
 export async function getStepSummary(stepId: string): Promise<StepSummaryRecord | null> {
-  const result = await pool.query(
-    `SELECT step_id, rejected, accepted, rejection_breakdown
+  const result = await db.query(
+    `SELECT step_id, rejected, accepted, rejection_breakdown, reason_code_breakdown
      FROM step_summaries WHERE step_id = $1`,
     [stepId]
   );
@@ -200,27 +368,450 @@ export async function getStepSummary(stepId: string): Promise<StepSummaryRecord
     rejected: row.rejected,
     accepted: row.accepted,
     rejection_breakdown: row.rejection_breakdown || {},
+    reason_code_breakdown: row.reason_code_breakdown || {},
   };
 }
 
-export async function findFilteringStepsWithHighRejectionRate(threshold: number = 0.9): Promise<any[]> {
-  const result = await pool.query(
+/**
+ * Steps whose type belongs to the given category (filter by default, e.g. `filter`, `dedupe`)
+ * that rejected more than threshold of their candidates.
+ */
+export async function findFilteringStepsWithHighRejectionRate(
+  threshold: number = 0.9,
+  category: StepCategory = 'filter',
+  projectId?: string
+): Promise<any[]> {
+  const result = await db.query(
     `SELECT 
        s.step_id,
        s.run_id,
        s.name,
        s.type,
+       st.category,
        s.metadata,
        ss.rejected,
        ss.accepted,
+       ss.reason_code_breakdown,
        (ss.rejected::float / NULLIF(ss.rejected + ss.accepted, 0)) as rejection_rate
      FROM steps s
      JOIN step_summaries ss ON s.step_id = ss.step_id
-     WHERE s.type = 'filter'
+     JOIN step_types st ON st.name = s.type
+     WHERE st.category = $2
        AND (ss.rejected::float / NULLIF(ss.rejected + ss.accepted, 0)) > $1
+       AND ($3::uuid IS NULL OR s.project_id = $3)
      ORDER BY rejection_rate DESC`,
-    [threshold]
+    [threshold, category, projectId ?? null]
   );
 
   return result.rows;
 }
+
+export interface ReasonAggregateFilters {
+  project_id?: string;
+  pipeline?: string;
+  step_name?: string;
+  step_type?: StepType;
+  step_category?: string;
+  reason_code?: string;
+  from?: string;
+  to?: string;
+  group_by?: Array<'pipeline' | 'step'>;
+}
+
+/**
+ * Aggregate rejection counts by reason code across pipelines, steps and time ranges.
+ * Counts come from step summaries, so they cover every candidate, not just sampled ones.
+ */
+export async function aggregateRejectionReasons(filters: ReasonAggregateFilters = {}): Promise<any[]> {
+  const groupColumns = ['rc.reason_code'];
+  const selectColumns = ['rc.reason_code'];
+  if (filters.group_by?.includes('pipeline')) {
+    groupColumns.push('r.pipeline');
+    selectColumns.push('r.pipeline');
+  }
+  if (filters.group_by?.includes('step')) {
+    groupColumns.push('s.name');
+    selectColumns.push('s.name AS step_name');
+  }
+
+  let query = `SELECT ${selectColumns.join(', ')},
+       SUM(rc.count)::int AS count,
+       COUNT(DISTINCT s.step_id)::int AS step_count,
+       COUNT(DISTINCT s.run_id)::int AS run_count
+     FROM step_summaries ss
+     JOIN steps s ON s.step_id = ss.step_id
+     JOIN runs r ON r.run_id = s.run_id
+     CROSS JOIN LATERAL (
+       SELECT key AS reason_code, value::int AS count
+       FROM jsonb_each_text(ss.reason_code_breakdown)
+       WHERE value ~ '^[0-9]{1,9}$' -- skips counts stored before isCountMap rejected non-integers
+     ) rc
+     WHERE 1=1`;
+  const values: any[] = [];
+  let paramCount = 1;
+
+  if (filters.project_id) {
+    query += ` AND s.project_id = $${paramCount++}`;
+    values.push(filters.project_id);
+  }
+  if (filters.pipeline) {
+    query += ` AND r.pipeline = $${paramCount++}`;
+    values.push(filters.pipeline);
+  }
+  if (filters.step_name) {
+    query += ` AND s.name = $${paramCount++}`;
+    values.push(filters.step_name);
+  }
+  if (filters.step_type) {
+    query += ` AND s.type = $${paramCount++}`;
+    values.push(filters.step_type);
+  }
+  if (filters.step_category) {
+    query += ` AND s.type IN (SELECT name FROM step_types WHERE category = $${paramCount++})`;
+    values.push(filters.step_category);
+  }
+  if (filters.reason_code) {
+    query += ` AND rc.reason_code = $${paramCount++}`;
+    values.push(filters.reason_code);
+  }
+  if (filters.from) {
+    query += ` AND r.started_at >= $${paramCount++}`;
+    values.push(filters.from);
+  }
+  if (filters.to) {
+    query += ` AND r.started_at < $${paramCount++}`;
+    values.push(filters.to);
+  }
+
+  query += ` GROUP BY ${groupColumns.join(', ')} ORDER BY count DESC`;
+
+  const result = await db.query(query, values);
+  return result.rows;
+}
+
+export interface StepGraphEdge {
+  from_step_id: string;
+  to_step_id: string;
+  source_output_count: number | null;
+  candidate_count: number;
+}
+
+/**
+ * Build the step DAG for a run.
+ * Edge candidate_count is the number of candidates accepted by the parent step
+ * that were also recorded in the child step (only meaningful with candidate logging);
+ * source_output_count is the parent's summary output count.
+ */
+export async function getRunGraph(runId: string): Promise<{ nodes: StepRecord[]; edges: StepGraphEdge[] }> {
+  const nodes = await listSteps({ run_id: runId });
+
+  const result = await db.query(
+    `SELECT
+       p.parent_id AS from_step_id,
+       s.step_id AS to_step_id,
+       parent.output_count AS source_output_count,
+       (SELECT COUNT(*)::int
+        FROM candidates pc
+        JOIN candidates cc ON cc.candidate_id = pc.candidate_id AND cc.step_id = s.step_id
+        WHERE pc.step_id = parent.step_id AND pc.decision = 'accepted') AS candidate_count
+     FROM steps s
+     CROSS JOIN LATERAL unnest(s.parent_step_ids) AS p(parent_id)
+     LEFT JOIN steps parent ON parent.step_id = p.parent_id AND parent.project_id = s.project_id
+     WHERE s.run_id = $1
+     ORDER BY COALESCE(s.started_at, s.created_at) ASC`,
+    [runId]
+  );
+
+  return {
+    nodes,
+    edges: result.rows.map((row) => ({
+      from_step_id: row.from_step_id,
+      to_step_id: row.to_step_id,
+      source_output_count: row.source_output_count ?? null,
+      candidate_count: row.candidate_count,
+    })),
+  };
+}
+
+export interface NumericRange {
+  eq?: number;
+  ne?: number;
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+export interface TimeRange {
+  gt?: string;
+  gte?: string;
+  lt?: string;
+  lte?: string;
+}
+
+/**
+ * Filter DSL for POST /query/steps. All conditions are ANDed; list values match any element.
+ */
+export interface StepQueryFilter {
+  type?: string | string[];
+  category?: string | string[];
+  name?: string | string[];
+  pipeline?: string | string[];
+  status?: string | string[];
+  rejection_rate?: NumericRange; // rejected / (rejected + accepted)
+  reduction_ratio?: NumericRange; // 1 - output_count / input_count
+  input_count?: NumericRange;
+  output_count?: NumericRange;
+  duration_ms?: NumericRange;
+  started_at?: TimeRange;
+  metadata?: Record<string, string | number | boolean | null>; // dot-separated path -> exact value
+  reason_codes?: string[]; // reason_code_breakdown has any of these keys
+  rejection_reasons?: string[]; // rejection_breakdown has any of these keys
+}
+
+export type StepQueryGroup = 'pipeline' | 'name';
+
+export interface StepQuery {
+  filter?: StepQueryFilter;
+  group_by?: StepQueryGroup[];
+  sort?: Array<{ field: string; order?: 'asc' | 'desc' }>;
+  limit?: number; // default 50, max 500
+  offset?: number;
+}
+
+export interface StepQueryResult {
+  results: any[]; // steps, or groups when grouped
+  limit: number;
+  offset: number;
+  has_more: boolean;
+}
+
+const QUERY_REJECTION_RATE = `(ss.rejected::float / NULLIF(ss.rejected + ss.accepted, 0))`;
+const QUERY_REDUCTION_RATIO = `(1 - s.output_count::float / NULLIF(s.input_count, 0))`;
+const QUERY_DURATION_MS = `(EXTRACT(EPOCH FROM (s.ended_at - s.started_at)) * 1000)::float`;
+
+// Filterable columns of the step query: DSL key -> SQL expression.
+// Maps, not object literals: an inherited name like `constructor` must not resolve.
+const QUERY_LIST_COLUMNS = new Map<string, string>([
+  ['type', 's.type'],
+  ['category', 'st.category'],
+  ['name', 's.name'],
+  ['pipeline', 'r.pipeline'],
+  ['status', 's.status'],
+]);
+
+const QUERY_RANGE_COLUMNS = new Map<string, string>([
+  ['rejection_rate', QUERY_REJECTION_RATE],
+  ['reduction_ratio', QUERY_REDUCTION_RATIO],
+  ['input_count', 's.input_count'],
+  ['output_count', 's.output_count'],
+  ['duration_ms', QUERY_DURATION_MS],
+  ['started_at', 's.started_at'],
+]);
+
+const QUERY_RANGE_OPERATORS = new Map<string, string>([
+  ['eq', '='],
+  ['ne', '<>'],
+  ['gt', '>'],
+  ['gte', '>='],
+  ['lt', '<'],
+  ['lte', '<='],
+]);
+
+// Sortable fields per result shape (never interpolate user input, only these expressions)
+const QUERY_STEP_SORT_FIELDS = new Map<string, string>([
+  ...QUERY_RANGE_COLUMNS,
+  ['name', 's.name'],
+  ['pipeline', 'r.pipeline'],
+]);
+
+const QUERY_GROUP_SORT_FIELDS = new Map<string, string>([
+  ['step_count', 'COUNT(*)'],
+  ['avg_rejection_rate', `AVG(${QUERY_REJECTION_RATE})`],
+  ['avg_reduction_ratio', `AVG(${QUERY_REDUCTION_RATIO})`],
+  ['total_input', 'SUM(s.input_count)'],
+  ['total_output', 'SUM(s.output_count)'],
+  ['pipeline', 'r.pipeline'],
+  ['name', 's.name'],
+]);
+
+const QUERY_MAX_LIMIT = 500;
+
+const STEP_QUERY_KEYS = ['filter', 'group_by', 'sort', 'limit', 'offset'];
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// { a: { b: value } } for path 'a.b', so equality uses JSONB containment
+function nestedValue(path: string, value: any): string {
+  return JSON.stringify(path.split('.').reduceRight<any>((inner, key) => ({ [key]: inner }), value));
+}
+
+/**
+ * Compile a step query to parameterized SQL.
+ * Field names and operators are looked up in fixed tables; every value is a bind parameter.
+ * With projectId, only that project's steps match.
+ * Returns { error } for malformed queries (unknown fields, wrong value types).
+ */
+export function compileStepQuery(
+  query: StepQuery,
+  projectId?: string
+): { sql: string; values: any[] } | { error: string } {
+  if (!isPlainObject(query)) return { error: 'Query must be an object' };
+  const unknownKey = Object.keys(query).find((key) => !STEP_QUERY_KEYS.includes(key));
+  if (unknownKey) return { error: `Unknown query key: ${unknownKey}` };
+
+  const filter = query.filter ?? {};
+  if (!isPlainObject(filter)) return { error: 'filter must be an object' };
+
+  const conditions: string[] = [];
+  const values: any[] = [];
+  const param = (value: any) => {
+    values.push(value);
+    return `$${values.length}`;
+  };
+
+  if (projectId) {
+    conditions.push(`s.project_id = ${param(projectId)}`);
+  }
+
+  for (const [key, value] of Object.entries(filter)) {
+    if (value === undefined) continue;
+
+    const listColumn = QUERY_LIST_COLUMNS.get(key);
+    const rangeColumn = QUERY_RANGE_COLUMNS.get(key);
+
+    if (listColumn) {
+      const list = Array.isArray(value) ? value : [value];
+      if (list.length === 0 || !list.every((v) => typeof v === 'string')) {
+        return { error: `filter.${key} must be a string or an array of strings` };
+      }
+      conditions.push(`${listColumn} = ANY(${param(list)}::text[])`);
+    } else if (rangeColumn) {
+      if (!isPlainObject(value) || Object.keys(value).length === 0) {
+        return { error: `filter.${key} must be an object of comparisons (eq, ne, gt, gte, lt, lte)` };
+      }
+      for (const [op, bound] of Object.entries(value)) {
+        const operator = QUERY_RANGE_OPERATORS.get(op);
+        if (!operator) return { error: `Unknown operator filter.${key}.${op}` };
+        if (key === 'started_at') {
+          if (typeof bound !== 'string' || isNaN(Date.parse(bound))) {
+            return { error: `filter.${key}.${op} must be an ISO timestamp` };
+          }
+          conditions.push(`${rangeColumn} ${operator} ${param(bound)}::timestamp`);
+        } else {
+          if (typeof bound !== 'number' || !isFinite(bound)) {
+            return { error: `filter.${key}.${op} must be a number` };
+          }
+          conditions.push(`${rangeColumn} ${operator} ${param(bound)}::float`);
+        }
+      }
+    } else if (key === 'metadata') {
+      if (!isPlainObject(value)) return { error: 'filter.metadata must be an object of path: value' };
+      for (const [path, expected] of Object.entries(value)) {
+        if (isPlainObject(expected) || Array.isArray(expected)) {
+          return { error: `filter.metadata.${path} must be a string, number, boolean or null` };
+        }
+        conditions.push(`s.metadata @> ${param(nestedValue(path, expected))}::jsonb`);
+      }
+    } else if (key === 'reason_codes' || key === 'rejection_reasons') {
+      if (!Array.isArray(value) || value.length === 0 || !value.every((v) => typeof v === 'string')) {
+        return { error: `filter.${key} must be a non-empty array of strings` };
+      }
+      const column = key === 'reason_codes' ? 'ss.reason_code_breakdown' : 'ss.rejection_breakdown';
+      conditions.push(`${column} ?| ${param(value)}::text[]`);
+    } else {
+      return { error: `Unknown filter: ${key}` };
+    }
+  }
+
+  const groupBy = query.group_by ?? [];
+  if (!Array.isArray(groupBy) || !groupBy.every((g) => g === 'pipeline' || g === 'name')) {
+    return { error: 'group_by must be an array of: pipeline, name' };
+  }
+  const groupColumns = Array.from(new Set(groupBy)).map((g) => (g === 'pipeline' ? 'r.pipeline' : 's.name'));
+
+  const sortFields = groupColumns.length > 0 ? QUERY_GROUP_SORT_FIELDS : QUERY_STEP_SORT_FIELDS;
+  const sort = query.sort ?? [];
+  if (!Array.isArray(sort)) return { error: 'sort must be an array of { field, order }' };
+  const orderBy: string[] = [];
+  for (const entry of sort) {
+    const field = entry?.field;
+    const sortExpression = typeof field === 'string' ? sortFields.get(field) : undefined;
+    if (!sortExpression) {
+      return { error: `sort field must be one of: ${Array.from(sortFields.keys()).join(', ')}` };
+    }
+    if (groupColumns.length > 0 && (field === 'pipeline' || field === 'name') && !groupBy.includes(field)) {
+      return { error: `Cannot sort by ${field} unless grouping by it` };
+    }
+    if (entry.order !== undefined && entry.order !== 'asc' && entry.order !== 'desc') {
+      return { error: 'sort order must be asc or desc' };
+    }
+    orderBy.push(`${sortExpression} ${entry.order === 'asc' ? 'ASC' : 'DESC'} NULLS LAST`);
+  }
+
+  const limit = query.limit ?? 50;
+  const offset = query.offset ?? 0;
+  if (!Number.isInteger(limit) || limit < 1 || limit > QUERY_MAX_LIMIT) {
+    return { error: `limit must be an integer between 1 and ${QUERY_MAX_LIMIT}` };
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    return { error: 'offset must be a non-negative integer' };
+  }
+
+  const from = `FROM steps s
+     JOIN runs r ON r.run_id = s.run_id
+     LEFT JOIN step_summaries ss ON ss.step_id = s.step_id
+     LEFT JOIN step_types st ON st.name = s.type
+     WHERE ${conditions.length > 0 ? conditions.join(' AND ') : 'TRUE'}`;
+
+  let sql: string;
+  if (groupColumns.length > 0) {
+    sql = `SELECT ${groupColumns.map((c) => `${c} AS ${c.slice(2)}`).join(', ')},
+       COUNT(*)::int AS step_count,
+       AVG(${QUERY_REJECTION_RATE})::float AS avg_rejection_rate,
+       AVG(${QUERY_REDUCTION_RATIO})::float AS avg_reduction_ratio,
+       SUM(s.input_count)::int AS total_input,
+       SUM(s.output_count)::int AS total_output
+     ${from}
+     GROUP BY ${groupColumns.join(', ')}
+     ORDER BY ${[...orderBy, ...groupColumns].join(', ')}`;
+  } else {
+    sql = `SELECT s.step_id, s.run_id, r.pipeline, s.name, s.type, st.category, s.status,
+       s.input_count, s.output_count, s.metadata, s.started_at, s.ended_at,
+       ${QUERY_DURATION_MS} AS duration_ms,
+       ss.rejected, ss.accepted, ss.rejection_breakdown, ss.reason_code_breakdown,
+       ${QUERY_REJECTION_RATE} AS rejection_rate,
+       ${QUERY_REDUCTION_RATIO} AS reduction_ratio
+     ${from}
+     ORDER BY ${[...orderBy, 'COALESCE(s.started_at, s.created_at) DESC', 's.step_id'].join(', ')}`;
+  }
+
+  // One extra row tells whether another page follows
+  sql += ` LIMIT ${param(limit + 1)} OFFSET ${param(offset)}`;
+  return { sql, values };
+}
+
+/**
+ * Cross-pipeline step query (see StepQuery). Returns { error } without touching the database
+ * when the query does not compile.
+ */
+export async function queryStepsByFilter(
+  query: StepQuery,
+  projectId?: string
+): Promise<StepQueryResult | { error: string }> {
+  const compiled = compileStepQuery(query, projectId);
+  if ('error' in compiled) return compiled;
+
+  const result = await db.query(compiled.sql, compiled.values);
+  const limit = query.limit ?? 50;
+  const offset = query.offset ?? 0;
+
+  return {
+    results: result.rows.slice(0, limit),
+    limit,
+    offset,
+    has_more: result.rows.length > limit,
+  };
+}
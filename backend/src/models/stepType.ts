@@ -0,0 +1,83 @@
+/**
+ * Step type registry - data access layer.
+ * Every step type maps to a semantic category, so new kinds of decision points
+ * (e.g. `dedupe` as a filter, `rerank` as a rank) stay queryable across pipelines.
+ */
+
+import { db } from '../db/connection';
+
+export type StepCategory = 'filter' | 'rank' | 'generate' | 'select';
+
+export const STEP_CATEGORIES: StepCategory[] = ['filter', 'rank', 'generate', 'select'];
+
+export function isStepCategory(value: unknown): value is StepCategory {
+  return (STEP_CATEGORIES as unknown[]).includes(value);
+}
+
+export interface StepTypeRecord {
+  name: string;
+  category: StepCategory;
+  description?: string;
+}
+
+// Registered names rarely change; cache them for the validation hot path
+const CACHE_TTL_MS = 30000;
+// Minimum age before an unknown name triggers a reload (registered by another process)
+const MISS_RELOAD_MS = 1000;
+
+let cache: { types: Map<string, StepTypeRecord>; loadedAt: number } | null = null;
+
+async function loadRegistry(): Promise<Map<string, StepTypeRecord>> {
+  const result = await db.query(`SELECT name, category, description FROM step_types ORDER BY name`);
+  const types = new Map<string, StepTypeRecord>();
+  for (const row of result.rows) {
+    types.set(row.name, { name: row.name, category: row.category, description: row.description ?? undefined });
+  }
+  cache = { types, loadedAt: Date.now() };
+  return types;
+}
+
+async function registry(): Promise<Map<string, StepTypeRecord>> {
+  if (cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) return cache.types;
+  return loadRegistry();
+}
+
+export async function listStepTypes(): Promise<StepTypeRecord[]> {
+  return Array.from((await loadRegistry()).values());
+}
+
+/**
+ * Return the given type names that are not registered.
+ */
+export async function findUnregisteredStepTypes(names: string[]): Promise<string[]> {
+  let types = await registry();
+  if (names.some((name) => !types.has(name)) && cache && Date.now() - cache.loadedAt >= MISS_RELOAD_MS) {
+    types = await loadRegistry();
+  }
+  return Array.from(new Set(names.filter((name) => !types.has(name))));
+}
+
+export async function isRegisteredStepType(name: string): Promise<boolean> {
+  return (await findUnregisteredStepTypes([name])).length === 0;
+}
+
+/**
+ * Register a step type, or update the category of an existing one.
+ * The registry is shared by every project, so the category of a type that steps already
+ * use is never changed: returns false (and changes nothing) in that case. An existing
+ * description is kept; one is only added to types without.
+ */
+export async function registerStepType(stepType: StepTypeRecord): Promise<boolean> {
+  const result = await db.query(
+    `INSERT INTO step_types (name, category, description)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (name) DO UPDATE SET
+       category = EXCLUDED.category,
+       description = COALESCE(step_types.description, EXCLUDED.description)
+     WHERE step_types.category = EXCLUDED.category
+        OR NOT EXISTS (SELECT 1 FROM steps WHERE steps.type = step_types.name)`,
+    [stepType.name, stepType.category, stepType.description]
+  );
+  cache = null;
+  return (result.rowCount ?? 0) > 0;
+}
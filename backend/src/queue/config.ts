@@ -1,9 +1,18 @@
 /**
  * BullMQ Queue Configuration
+ *
+ * XRAY_QUEUE_MODE=embedded swaps the Redis-backed queues for in-memory ones processed
+ * inside the API server (see queue/handlers.ts), so only PostgreSQL is required.
  */
 
 import { Queue, QueueOptions } from 'bullmq';
 import Redis, { RedisOptions } from 'ioredis';
+import { JobQueue, BullJobQueue } from './jobQueue';
+import { MemoryJobQueue } from './memoryJobQueue';
+
+export type QueueMode = 'redis' | 'embedded';
+
+export const queueMode: QueueMode = process.env.XRAY_QUEUE_MODE === 'embedded' ? 'embedded' : 'redis';
 
 // Redis connection configuration (compatible with both BullMQ and ioredis)
 const redisConfig: RedisOptions = {
@@ -24,19 +33,19 @@ const redisConfig: RedisOptions = {
   },
 };
 
-// Redis connection instance (for event handlers and direct access)
-const redisConnection = new Redis(redisConfig);
+// Redis connection instance (for event handlers and direct access; not opened in embedded mode)
+const redisConnection = queueMode === 'redis' ? new Redis(redisConfig) : undefined;
 
 // Handle Redis connection errors
-redisConnection.on('error', (err) => {
+redisConnection?.on('error', (err) => {
   console.error('Redis connection error:', err.message);
 });
 
-redisConnection.on('connect', () => {
+redisConnection?.on('connect', () => {
   console.log('✅ Redis connected');
 });
 
-redisConnection.on('ready', () => {
+redisConnection?.on('ready', () => {
   console.log('✅ Redis ready');
 });
 
@@ -59,10 +68,23 @@ const queueOptions: QueueOptions = {
   },
 };
 
+// Embedded queues apply the same attempts, backoff and retention options
+function createQueue(name: string): JobQueue {
+  if (queueMode === 'embedded') return new MemoryJobQueue(name, queueOptions.defaultJobOptions);
+  return new BullJobQueue(new Queue(name, queueOptions), redisConfig);
+}
+
 // Create queues for different job types
-export const runQueue = new Queue('runs', queueOptions);
-export const stepQueue = new Queue('steps', queueOptions);
-export const candidateQueue = new Queue('candidates', queueOptions);
+export const runQueue = createQueue('runs');
+export const stepQueue = createQueue('steps');
+export const candidateQueue = createQueue('candidates');
+
+// Queues by name (for admin tooling that addresses a queue by its name)
+export const queuesByName: Record<string, JobQueue> = {
+  runs: runQueue,
+  steps: stepQueue,
+  candidates: candidateQueue,
+};
 
 export { redisConnection, redisConfig };
 
@@ -0,0 +1,152 @@
+/**
+ * Dead-letter inspection and replay.
+ * Jobs that exhaust their attempts stay in BullMQ's failed set (see removeOnFail in config.ts);
+ * these helpers list, inspect, retry and discard them so lost data can be recovered after a fix.
+ */
+
+import type { JobQueue, QueueJob } from './jobQueue';
+import { queuesByName } from './config';
+
+// Failed jobs are scanned in pages of this size when matching by error pattern
+const SCAN_PAGE_SIZE = 500;
+
+export interface FailedJobSummary {
+  id: string;
+  queue: string;
+  name: string;
+  failed_reason: string;
+  attempts_made: number;
+  created_at: string;
+  failed_at?: string;
+}
+
+export interface FailedJobDetails extends FailedJobSummary {
+  state: string;
+  data: any;
+  stacktrace: string[];
+  processed_at?: string;
+}
+
+export type QueueCounts = Record<string, Record<string, number>>;
+
+function toIso(timestamp?: number): string | undefined {
+  return timestamp ? new Date(timestamp).toISOString() : undefined;
+}
+
+function toSummary(queue: JobQueue, job: QueueJob): FailedJobSummary {
+  return {
+    id: job.id!,
+    queue: queue.name,
+    name: job.name,
+    failed_reason: job.failedReason,
+    attempts_made: job.attemptsMade,
+    created_at: toIso(job.timestamp)!,
+    failed_at: toIso(job.finishedOn),
+  };
+}
+
+/**
+ * Resolve queue names, defaulting to every queue. Returns null if a name is unknown.
+ */
+export function resolveQueues(queueName?: string): JobQueue[] | null {
+  if (!queueName) return Object.values(queuesByName);
+  // Own keys only: `constructor` or `toString` are not queues (Object.hasOwn needs ES2022 typings)
+  if (!Object.prototype.hasOwnProperty.call(queuesByName, queueName)) return null;
+  return [queuesByName[queueName]];
+}
+
+/**
+ * Most recently failed jobs first. Across several queues, each is read up to offset + limit
+ * and the results are merged by failure time.
+ */
+export async function listFailedJobs(queues: JobQueue[], limit: number, offset: number): Promise<FailedJobSummary[]> {
+  const perQueue = await Promise.all(
+    queues.map(async (queue) => {
+      const jobs = await queue.getFailed(queues.length === 1 ? offset : 0, offset + limit - 1);
+      return jobs.filter(Boolean).map((job) => toSummary(queue, job));
+    })
+  );
+
+  if (queues.length === 1) return perQueue[0];
+
+  return perQueue
+    .flat()
+    .sort((a, b) => (b.failed_at || '').localeCompare(a.failed_at || ''))
+    .slice(offset, offset + limit);
+}
+
+export async function getJobDetails(queue: JobQueue, jobId: string): Promise<FailedJobDetails | null> {
+  const job = await queue.getJob(jobId);
+  if (!job) return null;
+
+  return {
+    ...toSummary(queue, job),
+    state: await job.getState(),
+    data: job.data,
+    stacktrace: job.stacktrace || [],
+    processed_at: toIso(job.processedOn),
+  };
+}
+
+/**
+ * Move a failed job back to waiting with a fresh set of attempts.
+ * Returns 'not_found', 'not_failed' (only failed jobs can be retried) or 'retried'.
+ */
+export async function retryJob(queue: JobQueue, jobId: string): Promise<'retried' | 'not_found' | 'not_failed'> {
+  const job = await queue.getJob(jobId);
+  if (!job) return 'not_found';
+  if ((await job.getState()) !== 'failed') return 'not_failed';
+
+  await job.retry('failed', { resetAttemptsMade: true });
+  return 'retried';
+}
+
+/**
+ * Failed jobs whose failure reason contains pattern (case-insensitive; '' matches all).
+ * Collected before acting, since retrying or removing jobs shifts the failed set.
+ */
+async function findFailedJobs(queues: JobQueue[], pattern: string): Promise<QueueJob[]> {
+  const needle = pattern.toLowerCase();
+  const matched: QueueJob[] = [];
+
+  for (const queue of queues) {
+    for (let start = 0; ; start += SCAN_PAGE_SIZE) {
+      const jobs = await queue.getFailed(start, start + SCAN_PAGE_SIZE - 1);
+      for (const job of jobs) {
+        if (job && (job.failedReason || '').toLowerCase().includes(needle)) matched.push(job);
+      }
+      if (jobs.length < SCAN_PAGE_SIZE) break;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Retry every failed job matching pattern (see findFailedJobs).
+ */
+export async function retryFailedJobs(queues: JobQueue[], pattern: string): Promise<{ matched: number; retried: number }> {
+  const jobs = await findFailedJobs(queues, pattern);
+  const results = await Promise.allSettled(jobs.map((job) => job.retry('failed', { resetAttemptsMade: true })));
+  return { matched: jobs.length, retried: results.filter((r) => r.status === 'fulfilled').length };
+}
+
+/**
+ * Permanently remove every failed job matching pattern (see findFailedJobs).
+ */
+export async function discardFailedJobs(queues: JobQueue[], pattern: string): Promise<{ matched: number; discarded: number }> {
+  const jobs = await findFailedJobs(queues, pattern);
+  const results = await Promise.allSettled(jobs.map((job) => job.remove()));
+  return { matched: jobs.length, discarded: results.filter((r) => r.status === 'fulfilled').length };
+}
+
+/**
+ * Job counts by state for every queue.
+ */
+export async function getQueueCounts(): Promise<QueueCounts> {
+  const counts: QueueCounts = {};
+  for (const [name, queue] of Object.entries(queuesByName)) {
+    counts[name] = await queue.getJobCounts('waiting', 'active', 'delayed', 'completed', 'failed', 'paused');
+  }
+  return counts;
+}
@@ -0,0 +1,274 @@
+/**
+ * Typed ingest events and their mapping to queue jobs.
+ * Shared by the batched ingest route and the OTLP trace receiver.
+ */
+
+import { runQueue, stepQueue, candidateQueue } from './config';
+import type { JobQueue } from './jobQueue';
+import {
+  CreateRunJobData,
+  UpdateRunJobData,
+  RecordMetricJobData,
+  runLabelError,
+} from './processors/runProcessor';
+import type {
+  CreateStepJobData,
+  UpdateStepSummaryJobData,
+  EndStepJobData,
+  CreateLLMCallJobData,
+} from './processors/stepProcessor';
+import type { CreateCandidatesBulkJobData } from './processors/candidateProcessor';
+import * as stepModel from '../models/step';
+import * as stepTypeModel from '../models/stepType';
+
+export type IngestEventType =
+  | 'run.create'
+  | 'run.end'
+  | 'step.create'
+  | 'step.summary'
+  | 'step.end'
+  | 'candidate.bulk'
+  | 'llm.call'
+  | 'metric.record';
+
+export interface IngestEvent {
+  type: IngestEventType;
+  data: any;
+}
+
+interface IngestJob {
+  queue: JobQueue;
+  name: string;
+  data: any;
+}
+
+/**
+ * Map one event to the queue job it fans out to.
+ * Performs the same required-field checks as the per-resource routes.
+ * unknownStepTypes lists the batch's step types that are not in the registry.
+ */
+function toJob(event: IngestEvent, unknownStepTypes: string[]): IngestJob | { error: string } {
+  if (!event || typeof event !== 'object' || !event.data || typeof event.data !== 'object') {
+    return { error: 'Event must be an object with type and data' };
+  }
+
+  const data = event.data;
+
+  switch (event.type) {
+    case 'run.create': {
+      if (!data.run_id || !data.pipeline || !data.started_at) {
+        return { error: 'Missing required fields: run_id, pipeline, started_at' };
+      }
+      const labelError = runLabelError(data.tags, data.attributes);
+      if (labelError) {
+        return { error: labelError };
+      }
+      return {
+        queue: runQueue,
+        name: 'create-run',
+        data: {
+          run_id: data.run_id,
+          pipeline: data.pipeline,
+          input: data.input,
+          started_at: data.started_at,
+          status: data.status || 'running',
+          tags: data.tags,
+          attributes: data.attributes,
+        } as CreateRunJobData,
+      };
+    }
+
+    case 'run.end':
+      if (!data.run_id) {
+        return { error: 'Missing required field: run_id' };
+      }
+      return {
+        queue: runQueue,
+        name: 'update-run',
+        data: {
+          run_id: data.run_id,
+          ended_at: data.ended_at,
+          status: data.status,
+          error: data.error,
+          error_class: data.error_class,
+          error_stack: data.error_stack,
+          error_attributes: data.error_attributes,
+          failed_step_id: data.failed_step_id,
+        } as UpdateRunJobData,
+      };
+
+    case 'step.create':
+      if (!data.step_id || !data.run_id || !data.name || !data.type) {
+        return { error: 'Missing required fields: step_id, run_id, name, type' };
+      }
+      if (typeof data.type !== 'string' || unknownStepTypes.includes(data.type)) {
+        return { error: `Invalid step type: ${data.type}` };
+      }
+      if (data.parent_step_ids !== undefined && !stepModel.isStepIdList(data.parent_step_ids)) {
+        return { error: 'parent_step_ids must be an array of step ids (UUIDs)' };
+      }
+      return {
+        queue: stepQueue,
+        name: 'create-step',
+        data: {
+          step_id: data.step_id,
+          run_id: data.run_id,
+          name: data.name,
+          type: data.type,
+          metadata: data.metadata || {},
+          pipeline: data.pipeline,
+          started_at: data.started_at,
+          parent_step_ids: data.parent_step_ids,
+        } as CreateStepJobData,
+      };
+
+    case 'step.summary':
+      if (!data.step_id) {
+        return { error: 'Missing required field: step_id' };
+      }
+      if (data.reason_code_breakdown !== undefined && !stepModel.isCountMap(data.reason_code_breakdown)) {
+        return { error: 'reason_code_breakdown must map reason codes to non-negative integer counts' };
+      }
+      return {
+        queue: stepQueue,
+        name: 'update-step-summary',
+        data: {
+          step_id: data.step_id,
+          input_count: data.input_count,
+          output_count: data.output_count,
+          rejection_breakdown: data.rejection_breakdown,
+          reason_code_breakdown: data.reason_code_breakdown,
+          run_id: data.run_id,
+        } as UpdateStepSummaryJobData,
+      };
+
+    case 'step.end':
+      if (!data.step_id) {
+        return { error: 'Missing required field: step_id' };
+      }
+      return {
+        queue: stepQueue,
+        name: 'end-step',
+        data: {
+          step_id: data.step_id,
+          run_id: data.run_id,
+          ended_at: data.ended_at,
+          status: data.status,
+          error: data.error,
+          error_class: data.error_class,
+          error_stack: data.error_stack,
+          error_attributes: data.error_attributes,
+        } as EndStepJobData,
+      };
+
+    case 'candidate.bulk':
+      if (!data.step_id || !Array.isArray(data.candidates) || data.candidates.length === 0) {
+        return { error: 'Missing required fields: step_id, candidates' };
+      }
+      return {
+        queue: candidateQueue,
+        name: 'create-candidates-bulk',
+        data: {
+          step_id: data.step_id,
+          candidates: data.candidates,
+          run_id: data.run_id,
+        } as CreateCandidatesBulkJobData,
+      };
+
+    case 'llm.call':
+      if (!data.call_id || !data.step_id || !data.model) {
+        return { error: 'Missing required fields: call_id, step_id, model' };
+      }
+      return {
+        queue: stepQueue,
+        name: 'create-llm-call',
+        data: {
+          call_id: data.call_id,
+          step_id: data.step_id,
+          run_id: data.run_id,
+          provider: data.provider,
+          model: data.model,
+          prompt: data.prompt,
+          completion: data.completion,
+          temperature: data.temperature,
+          parameters: data.parameters,
+          prompt_tokens: data.prompt_tokens,
+          completion_tokens: data.completion_tokens,
+          total_tokens: data.total_tokens,
+          cost_usd: data.cost_usd,
+          latency_ms: data.latency_ms,
+          started_at: data.started_at,
+        } as CreateLLMCallJobData,
+      };
+
+    case 'metric.record':
+      if (!data.metric_id || !data.run_id || !data.name || typeof data.value !== 'number') {
+        return { error: 'Missing required fields: metric_id, run_id, name, value' };
+      }
+      return {
+        queue: runQueue,
+        name: 'record-metric',
+        data: {
+          metric_id: data.metric_id,
+          run_id: data.run_id,
+          step_id: data.step_id,
+          name: data.name,
+          value: data.value,
+          unit: data.unit,
+          recorded_at: data.recorded_at,
+          pipeline: data.pipeline,
+        } as RecordMetricJobData,
+      };
+
+    default:
+      return { error: `Unknown event type: ${(event as any).type}` };
+  }
+}
+
+/**
+ * Validate and enqueue an ordered list of events.
+ * Jobs are grouped per queue (preserving event order within each queue) and added in bulk.
+ * Invalid events are reported by index and skipped; nothing is enqueued if none are valid.
+ *
+ * Every job is written to options.projectId (the request's project).
+ *
+ * With options.persistTimeoutMs, also waits until every job has been processed by the worker
+ * (i.e. written to the database). Rejects if a job fails or the timeout elapses.
+ */
+export async function enqueueEvents(
+  events: IngestEvent[],
+  options: { projectId?: string; persistTimeoutMs?: number } = {}
+): Promise<{ accepted: number; errors: { index: number; error: string }[] }> {
+  const jobsByQueue = new Map<JobQueue, { name: string; data: any }[]>();
+  const errors: { index: number; error: string }[] = [];
+
+  // Look up the batch's step types in the registry once
+  const stepTypes = events
+    .filter((event) => event?.type === 'step.create' && typeof event.data?.type === 'string')
+    .map((event) => event.data.type as string);
+  const unknownStepTypes = stepTypes.length > 0 ? await stepTypeModel.findUnregisteredStepTypes(stepTypes) : [];
+
+  events.forEach((event, index) => {
+    const job = toJob(event, unknownStepTypes);
+    if ('error' in job) {
+      errors.push({ index, error: job.error });
+      return;
+    }
+
+    const jobs = jobsByQueue.get(job.queue) || [];
+    jobs.push({ name: job.name, data: { ...job.data, project_id: options.projectId } });
+    jobsByQueue.set(job.queue, jobs);
+  });
+
+  const added = await Promise.all(
+    Array.from(jobsByQueue.entries()).map(async ([queue, jobs]) => ({ queue, jobs: await queue.addBulk(jobs) }))
+  );
+
+  if (options.persistTimeoutMs) {
+    await Promise.all(
+      added.flatMap(({ queue, jobs }) => jobs.map((job) => queue.waitUntilFinished(job, options.persistTimeoutMs)))
+    );
+  }
+
+  return { accepted: events.length - errors.length, errors };
+}
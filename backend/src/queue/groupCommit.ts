@@ -0,0 +1,98 @@
+/**
+ * Worker-side group commit.
+ * Jobs of the same name that arrive within a short window are written in one database
+ * transaction instead of one (or several) autocommitted queries each. Every job runs under
+ * its own savepoint, so a failing job is rolled back and reported failed on its own while
+ * the rest of the batch commits. Jobs only complete once their batch has committed.
+ *
+ * Configured via environment:
+ *   XRAY_GROUP_COMMIT_WINDOW_MS  how long the first job of a batch waits for others (default 50; 0 disables)
+ *   XRAY_GROUP_COMMIT_MAX_JOBS   a batch is written as soon as it has this many jobs (default 100)
+ */
+
+import { withTransaction } from '../db/connection';
+import { QueueJob } from './jobQueue';
+
+export const GROUP_COMMIT_WINDOW_MS = parseInt(process.env.XRAY_GROUP_COMMIT_WINDOW_MS || '50');
+export const GROUP_COMMIT_MAX_JOBS = Math.max(1, parseInt(process.env.XRAY_GROUP_COMMIT_MAX_JOBS || '100'));
+
+export const groupCommitEnabled = GROUP_COMMIT_WINDOW_MS > 0 && GROUP_COMMIT_MAX_JOBS > 1;
+
+type Dispatch = (job: QueueJob) => Promise<void>;
+
+interface PendingJob {
+  job: QueueJob;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+interface Batch {
+  jobs: PendingJob[];
+  timer?: NodeJS.Timeout;
+}
+
+/**
+ * Wrap a dispatcher so concurrent jobs are grouped by job name and committed together.
+ * Returns the dispatcher unchanged when group commit is disabled.
+ */
+export function withGroupCommit(dispatch: Dispatch): Dispatch {
+  if (!groupCommitEnabled) return dispatch;
+
+  const collecting = new Map<string, Batch>();
+
+  const flush = (name: string) => {
+    const batch = collecting.get(name);
+    if (!batch) return;
+    collecting.delete(name);
+    clearTimeout(batch.timer);
+    void commitBatch(dispatch, batch.jobs);
+  };
+
+  return (job) =>
+    new Promise<void>((resolve, reject) => {
+      let batch = collecting.get(job.name);
+      if (!batch) {
+        batch = { jobs: [] };
+        batch.timer = setTimeout(() => flush(job.name), GROUP_COMMIT_WINDOW_MS);
+        collecting.set(job.name, batch);
+      }
+
+      batch.jobs.push({ job, resolve, reject });
+      if (batch.jobs.length >= GROUP_COMMIT_MAX_JOBS) flush(job.name);
+    });
+}
+
+async function commitBatch(dispatch: Dispatch, jobs: PendingJob[]): Promise<void> {
+  // Nothing to group: write it the usual way
+  if (jobs.length === 1) {
+    const [pending] = jobs;
+    return dispatch(pending.job).then(pending.resolve, pending.reject);
+  }
+
+  const failures = new Map<PendingJob, unknown>();
+
+  try {
+    await withTransaction(async (client) => {
+      for (const pending of jobs) {
+        await client.query('SAVEPOINT job');
+        try {
+          await dispatch(pending.job);
+          await client.query('RELEASE SAVEPOINT job');
+        } catch (error) {
+          await client.query('ROLLBACK TO SAVEPOINT job');
+          await client.query('RELEASE SAVEPOINT job');
+          failures.set(pending, error);
+        }
+      }
+    });
+  } catch (error) {
+    // The transaction itself failed (e.g. lost connection, commit error): nothing was written
+    jobs.forEach((pending) => pending.reject(error));
+    return;
+  }
+
+  for (const pending of jobs) {
+    if (failures.has(pending)) pending.reject(failures.get(pending));
+    else pending.resolve();
+  }
+}
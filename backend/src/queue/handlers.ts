@@ -0,0 +1,103 @@
+/**
+ * Job handlers per queue: dispatch a job to its processor by job name.
+ * Used by the BullMQ workers (worker.ts) and, in embedded mode, by the in-process queues.
+ */
+
+import { queuesByName } from './config';
+import { JobHandler, QueueJob } from './jobQueue';
+import { MemoryJobQueue } from './memoryJobQueue';
+import { withGroupCommit, groupCommitEnabled, GROUP_COMMIT_MAX_JOBS } from './groupCommit';
+import { processCreateRun, processUpdateRun, processRecordMetric } from './processors/runProcessor';
+import {
+  processCreateStep,
+  processUpdateStepSummary,
+  processEndStep,
+  processCreateLLMCall,
+} from './processors/stepProcessor';
+import { processCreateCandidate, processCreateCandidatesBulk } from './processors/candidateProcessor';
+
+// Jobs processed concurrently per queue; with group commit, enough to fill a batch
+export const JOB_CONCURRENCY = groupCommitEnabled ? Math.max(10, GROUP_COMMIT_MAX_JOBS) : 10;
+
+/**
+ * Wrap a dispatcher with the per-job logging the workers print.
+ * Dispatchers are wrapped in withGroupCommit, so concurrent jobs of one name share a transaction.
+ */
+function withLogging(label: string, dispatch: (job: QueueJob) => Promise<void>): JobHandler {
+  return async (job) => {
+    console.log(`[${label}] Processing job ${job.id} of type ${job.name}`);
+
+    try {
+      await dispatch(job);
+      console.log(`[${label}] Successfully processed job ${job.id}`);
+    } catch (error: any) {
+      const errorMessage = error?.message || error?.toString() || 'Unknown error';
+      console.error(`[${label}] Error processing job ${job.id}:`, errorMessage);
+      throw error; // Re-throw to mark job as failed
+    }
+  };
+}
+
+export const runJobHandler = withLogging('Run Worker', withGroupCommit(async (job) => {
+  if (job.name === 'create-run') {
+    await processCreateRun(job as any);
+  } else if (job.name === 'update-run') {
+    await processUpdateRun(job as any);
+  } else if (job.name === 'record-metric') {
+    await processRecordMetric(job as any);
+  } else {
+    throw new Error(`Unknown job type: ${job.name}`);
+  }
+}));
+
+export const stepJobHandler = withLogging('Step Worker', withGroupCommit(async (job) => {
+  if (job.name === 'create-step') {
+    await processCreateStep(job as any);
+  } else if (job.name === 'update-step-summary') {
+    await processUpdateStepSummary(job as any);
+  } else if (job.name === 'end-step') {
+    await processEndStep(job as any);
+  } else if (job.name === 'create-llm-call') {
+    await processCreateLLMCall(job as any);
+  } else {
+    throw new Error(`Unknown job type: ${job.name}`);
+  }
+}));
+
+export const candidateJobHandler = withLogging('Candidate Worker', withGroupCommit(async (job) => {
+  if (job.name === 'create-candidate') {
+    await processCreateCandidate(job as any);
+  } else if (job.name === 'create-candidates-bulk') {
+    await processCreateCandidatesBulk(job as any);
+  } else {
+    throw new Error(`Unknown job type: ${job.name}`);
+  }
+}));
+
+const handlersByQueue: Record<string, JobHandler> = {
+  runs: runJobHandler,
+  steps: stepJobHandler,
+  candidates: candidateJobHandler,
+};
+
+function embeddedQueues(): Array<[string, MemoryJobQueue]> {
+  return Object.entries(queuesByName).filter(
+    (entry): entry is [string, MemoryJobQueue] => entry[1] instanceof MemoryJobQueue
+  );
+}
+
+/**
+ * Embedded mode: process the in-memory queues inside this process (no-op with Redis queues).
+ */
+export function startEmbeddedProcessing(): void {
+  for (const [name, queue] of embeddedQueues()) {
+    queue.process(handlersByQueue[name], { concurrency: JOB_CONCURRENCY });
+  }
+}
+
+/**
+ * Stop taking in-memory jobs and wait for the active ones.
+ */
+export async function stopEmbeddedProcessing(): Promise<void> {
+  await Promise.all(embeddedQueues().map(([, queue]) => queue.close()));
+}
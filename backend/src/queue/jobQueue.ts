@@ -0,0 +1,88 @@
+/**
+ * Pluggable job queue.
+ * Routes and ingest enqueue through JobQueue; BullJobQueue backs it with Redis (processed by worker.ts),
+ * MemoryJobQueue (see memoryJobQueue.ts) processes jobs inside the API server.
+ */
+
+import { Job, Queue, QueueEvents, ConnectionOptions } from 'bullmq';
+
+/**
+ * The part of a job the processors, ingest and admin tooling use (a subset of BullMQ's Job).
+ */
+export interface QueueJob<T = any> {
+  id?: string;
+  name: string;
+  data: T;
+  attemptsMade: number;
+  failedReason: string;
+  stacktrace: string[] | null;
+  timestamp: number;
+  processedOn?: number;
+  finishedOn?: number;
+  getState(): Promise<string>;
+  retry(state?: 'failed', opts?: { resetAttemptsMade?: boolean }): Promise<void>;
+  remove(): Promise<void>;
+}
+
+export interface JobQueue {
+  readonly name: string;
+  add(name: string, data: any): Promise<QueueJob>;
+  addBulk(jobs: { name: string; data: any }[]): Promise<QueueJob[]>;
+  /** Resolve once the job completed; reject if it failed for good or ttl elapses */
+  waitUntilFinished(job: QueueJob, ttl?: number): Promise<unknown>;
+  getJob(id: string): Promise<QueueJob | undefined>;
+  /** Failed jobs, most recent first (end is inclusive; -1 for all) */
+  getFailed(start?: number, end?: number): Promise<QueueJob[]>;
+  getJobCounts(...states: string[]): Promise<Record<string, number>>;
+}
+
+/**
+ * Processes one job; throwing marks the attempt as failed (and schedules a retry if attempts remain).
+ */
+export type JobHandler = (job: QueueJob) => Promise<void>;
+
+/**
+ * JobQueue backed by a BullMQ queue in Redis.
+ */
+export class BullJobQueue implements JobQueue {
+  private queue: Queue;
+  private connection: ConnectionOptions;
+  // Created on first use (only acknowledged ingest needs it)
+  private queueEvents?: QueueEvents;
+
+  constructor(queue: Queue, connection: ConnectionOptions) {
+    this.queue = queue;
+    this.connection = connection;
+  }
+
+  get name(): string {
+    return this.queue.name;
+  }
+
+  add(name: string, data: any): Promise<QueueJob> {
+    return this.queue.add(name, data);
+  }
+
+  addBulk(jobs: { name: string; data: any }[]): Promise<QueueJob[]> {
+    return this.queue.addBulk(jobs);
+  }
+
+  waitUntilFinished(job: QueueJob, ttl?: number): Promise<unknown> {
+    if (!this.queueEvents) {
+      this.queueEvents = new QueueEvents(this.queue.name, { connection: this.connection });
+    }
+    return (job as Job).waitUntilFinished(this.queueEvents, ttl);
+  }
+
+  getJob(id: string): Promise<QueueJob | undefined> {
+    return this.queue.getJob(id);
+  }
+
+  getFailed(start?: number, end?: number): Promise<QueueJob[]> {
+    return this.queue.getFailed(start, end);
+  }
+
+  getJobCounts(...states: string[]): Promise<Record<string, number>> {
+    return this.queue.getJobCounts(...(states as any[]));
+  }
+}
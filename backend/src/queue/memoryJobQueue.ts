@@ -0,0 +1,246 @@
+/**
+ * In-memory JobQueue for embedded mode (XRAY_QUEUE_MODE=embedded).
+ * Jobs are processed inside the API server with the same attempts, backoff and retention
+ * options as the BullMQ queues, so no Redis or worker process is needed.
+ * Jobs still waiting when the process exits are lost.
+ */
+
+import type { DefaultJobOptions } from 'bullmq';
+import { JobQueue, QueueJob, JobHandler } from './jobQueue';
+
+type JobState = 'waiting' | 'active' | 'delayed' | 'completed' | 'failed';
+
+type KeepJobs = boolean | number | { age?: number; count?: number };
+
+class MemoryJob implements QueueJob {
+  id: string;
+  name: string;
+  data: any;
+  attemptsMade = 0;
+  failedReason = '';
+  stacktrace: string[] = [];
+  timestamp = Date.now();
+  processedOn?: number;
+  finishedOn?: number;
+  state: JobState = 'waiting';
+  waiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+
+  constructor(private queue: MemoryJobQueue, id: string, name: string, data: any) {
+    this.id = id;
+    this.name = name;
+    this.data = data;
+  }
+
+  async getState(): Promise<string> {
+    return this.state;
+  }
+
+  async retry(state: 'failed' = 'failed', opts: { resetAttemptsMade?: boolean } = {}): Promise<void> {
+    this.queue.retry(this, opts);
+  }
+
+  async remove(): Promise<void> {
+    this.queue.remove(this);
+  }
+}
+
+export class MemoryJobQueue implements JobQueue {
+  readonly name: string;
+  private options: DefaultJobOptions;
+  private jobs = new Map<string, MemoryJob>();
+  private waiting: MemoryJob[] = [];
+  // Finished jobs in the order they finished (oldest first), so pruning never scans the queue
+  private finished = { completed: new Map<string, MemoryJob>(), failed: new Map<string, MemoryJob>() };
+  private retryTimers = new Set<NodeJS.Timeout>();
+  private nextId = 1;
+
+  private handler?: JobHandler;
+  private concurrency = 1;
+  private active = 0;
+  private closing = false;
+  private idle?: () => void;
+
+  constructor(name: string, options: DefaultJobOptions = {}) {
+    this.name = name;
+    this.options = options;
+  }
+
+  /**
+   * Start processing jobs (queued jobs wait until a handler is set).
+   */
+  process(handler: JobHandler, options: { concurrency?: number } = {}): void {
+    this.handler = handler;
+    this.concurrency = options.concurrency || 1;
+    this.drain();
+  }
+
+  /**
+   * Stop taking jobs and wait for the active ones to finish.
+   */
+  async close(): Promise<void> {
+    this.closing = true;
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+    if (this.active === 0) return;
+    await new Promise<void>((resolve) => (this.idle = resolve));
+  }
+
+  async add(name: string, data: any): Promise<QueueJob> {
+    const job = new MemoryJob(this, String(this.nextId++), name, data);
+    this.jobs.set(job.id, job);
+    this.waiting.push(job);
+    // Like BullMQ, never process synchronously inside add()
+    setImmediate(() => this.drain());
+    return job;
+  }
+
+  async addBulk(jobs: { name: string; data: any }[]): Promise<QueueJob[]> {
+    return Promise.all(jobs.map((job) => this.add(job.name, job.data)));
+  }
+
+  waitUntilFinished(job: QueueJob, ttl?: number): Promise<unknown> {
+    const memoryJob = job as MemoryJob;
+    if (memoryJob.state === 'completed') return Promise.resolve();
+    if (memoryJob.state === 'failed') return Promise.reject(new Error(memoryJob.failedReason));
+
+    return new Promise<void>((resolve, reject) => {
+      const timer = ttl
+        ? setTimeout(() => {
+            reject(new Error(`Job wait ${job.name} timed out before finishing, no finish notification arrived after ${ttl}ms (id=${job.id})`));
+          }, ttl)
+        : undefined;
+
+      memoryJob.waiters.push({
+        resolve: () => {
+          clearTimeout(timer);
+          resolve();
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+    });
+  }
+
+  async getJob(id: string): Promise<QueueJob | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getFailed(start = 0, end = -1): Promise<QueueJob[]> {
+    const failed = Array.from(this.finished.failed.values()).reverse();
+    return failed.slice(start, end === -1 ? undefined : end + 1);
+  }
+
+  async getJobCounts(...states: string[]): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    for (const state of states) {
+      counts[state] =
+        state === 'completed' || state === 'failed'
+          ? this.finished[state].size
+          : Array.from(this.jobs.values()).filter((job) => job.state === state).length;
+    }
+    return counts;
+  }
+
+  retry(job: MemoryJob, opts: { resetAttemptsMade?: boolean }): void {
+    if (job.state !== 'failed') throw new Error(`Job ${job.id} is not in the failed state`);
+
+    if (opts.resetAttemptsMade) job.attemptsMade = 0;
+    job.finishedOn = undefined;
+    this.finished.failed.delete(job.id);
+    this.enqueue(job);
+  }
+
+  remove(job: MemoryJob): void {
+    this.jobs.delete(job.id);
+    if (job.state === 'completed' || job.state === 'failed') this.finished[job.state].delete(job.id);
+    if (job.state === 'waiting') this.waiting = this.waiting.filter((waiting) => waiting !== job);
+  }
+
+  private enqueue(job: MemoryJob): void {
+    job.state = 'waiting';
+    this.waiting.push(job);
+    this.drain();
+  }
+
+  private drain(): void {
+    while (this.handler && !this.closing && this.active < this.concurrency && this.waiting.length > 0) {
+      this.run(this.waiting.shift()!);
+    }
+  }
+
+  private async run(job: MemoryJob): Promise<void> {
+    this.active++;
+    job.state = 'active';
+    job.processedOn = Date.now();
+
+    try {
+      await this.handler!(job);
+      this.finish(job, 'completed');
+    } catch (error: any) {
+      job.attemptsMade++;
+      job.failedReason = error?.message || error?.toString() || 'Unknown error';
+      if (error?.stack) job.stacktrace.push(error.stack);
+
+      if (job.attemptsMade < (this.options.attempts || 1)) {
+        job.state = 'delayed';
+        const timer = setTimeout(() => {
+          this.retryTimers.delete(timer);
+          this.enqueue(job);
+        }, this.backoffDelay(job.attemptsMade));
+        this.retryTimers.add(timer);
+      } else {
+        this.finish(job, 'failed');
+      }
+    } finally {
+      this.active--;
+      if (this.closing && this.active === 0) this.idle?.();
+      this.drain();
+    }
+  }
+
+  private finish(job: MemoryJob, state: 'completed' | 'failed'): void {
+    job.state = state;
+    job.finishedOn = Date.now();
+    this.finished[state].set(job.id, job);
+
+    const waiters = job.waiters;
+    job.waiters = [];
+    for (const waiter of waiters) {
+      if (state === 'completed') waiter.resolve();
+      else waiter.reject(new Error(job.failedReason));
+    }
+
+    this.prune(state, state === 'completed' ? this.options.removeOnComplete : this.options.removeOnFail);
+  }
+
+  // Same formulas as BullMQ's built-in 'fixed' and 'exponential' strategies
+  private backoffDelay(attemptsMade: number): number {
+    const backoff = this.options.backoff;
+    if (backoff === undefined) return 0;
+    if (typeof backoff === 'number') return backoff;
+
+    const delay = backoff.delay || 0;
+    return backoff.type === 'exponential' ? Math.round(Math.pow(2, attemptsMade - 1) * delay) : delay;
+  }
+
+  /**
+   * Apply removeOnComplete/removeOnFail: true removes immediately, a number keeps that many,
+   * { age, count } keeps jobs younger than age seconds, at most count of them.
+   */
+  private prune(state: 'completed' | 'failed', keep: KeepJobs | undefined): void {
+    if (keep === undefined || keep === false) return;
+
+    const finished = this.finished[state];
+    const maxCount = keep === true ? 0 : typeof keep === 'number' ? keep : keep.count ?? Infinity;
+    const minFinishedOn = typeof keep === 'object' && keep.age !== undefined ? Date.now() - keep.age * 1000 : -Infinity;
+
+    // Oldest first: drop from the front until the rest are few and recent enough
+    for (const job of finished.values()) {
+      if (finished.size <= maxCount && (job.finishedOn || 0) >= minFinishedOn) break;
+      finished.delete(job.id);
+      this.jobs.delete(job.id);
+    }
+  }
+}
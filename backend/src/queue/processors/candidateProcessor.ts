@@ -12,7 +12,11 @@ export interface CreateCandidateJobData {
   decision: 'accepted' | 'rejected';
   score?: number;
   reason?: string;
+  reason_code?: string;
+  reason_params?: Record<string, any>;
+  attributes?: Record<string, any>;
   run_id?: string;
+  project_id?: string;
 }
 
 export interface CreateCandidatesBulkJobData {
@@ -22,12 +26,21 @@ export interface CreateCandidatesBulkJobData {
     decision: 'accepted' | 'rejected';
     score?: number;
     reason?: string;
+    reason_code?: string;
+    reason_params?: Record<string, any>;
+    attributes?: Record<string, any>;
   }[];
   run_id?: string;
+  project_id?: string;
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
 export async function processCreateCandidate(job: Job<CreateCandidateJobData>): Promise<void> {
-  const { candidate_id, step_id, decision, score, reason, run_id } = job.data;
+  const { candidate_id, step_id, decision, score, reason, reason_code, reason_params, attributes, run_id, project_id } =
+    job.data;
 
   if (!candidate_id || !decision) {
     throw new Error('Missing required fields: candidate_id, decision');
@@ -37,41 +50,53 @@ export async function processCreateCandidate(job: Job<CreateCandidateJobData>):
     throw new Error('Invalid decision');
   }
 
-  // Ensure step exists (handles race condition where candidate arrives before step creation)
-  if (run_id) {
-    await stepModel.ensureStepExists(step_id, run_id);
+  if (attributes !== undefined && !isPlainObject(attributes)) {
+    throw new Error('Invalid attributes');
+  }
+
+  if (reason_params !== undefined && reason_params !== null && !isPlainObject(reason_params)) {
+    throw new Error('Invalid reason_params');
   }
 
+  // Ensure step exists (handles race condition where candidate arrives before step creation)
+  await stepModel.ensureStepExists(step_id, run_id, project_id);
+
   await candidateModel.createCandidate({
     candidate_id,
     step_id,
     decision,
     score,
     reason,
+    reason_code,
+    reason_params,
+    attributes,
   });
 }
 
 export async function processCreateCandidatesBulk(job: Job<CreateCandidatesBulkJobData>): Promise<void> {
-  const { step_id, candidates, run_id } = job.data;
+  const { step_id, candidates, run_id, project_id } = job.data;
 
   if (!Array.isArray(candidates) || candidates.length === 0) {
     throw new Error('Missing candidates array');
   }
 
   // Ensure step exists (handles race condition where candidates arrive before step creation)
-  if (run_id) {
-    await stepModel.ensureStepExists(step_id, run_id);
-  }
+  await stepModel.ensureStepExists(step_id, run_id, project_id);
 
   // Validate and prepare candidates
   const validCandidates = candidates
     .filter((c) => c.candidate_id && c.decision && ['accepted', 'rejected'].includes(c.decision))
+    .filter((c) => c.attributes === undefined || isPlainObject(c.attributes))
+    .filter((c) => c.reason_params === undefined || c.reason_params === null || isPlainObject(c.reason_params))
     .map((c) => ({
       candidate_id: c.candidate_id,
       step_id,
       decision: c.decision,
       score: c.score,
       reason: c.reason,
+      reason_code: c.reason_code,
+      reason_params: c.reason_params,
+      attributes: c.attributes,
     }));
 
   if (validCandidates.length > 0) {
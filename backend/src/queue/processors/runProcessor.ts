@@ -4,6 +4,8 @@
 
 import { Job } from 'bullmq';
 import * as runModel from '../../models/run';
+import * as stepModel from '../../models/step';
+import * as metricModel from '../../models/metric';
 
 export interface CreateRunJobData {
   run_id: string;
@@ -11,37 +13,122 @@ export interface CreateRunJobData {
   input: any;
   started_at: string;
   status?: 'running' | 'success' | 'error';
+  tags?: string[];
+  attributes?: Record<string, any>;
+  project_id?: string; // set by the API from the request's key (default project without one)
 }
 
 export interface UpdateRunJobData {
   run_id: string;
   ended_at?: string;
   status?: 'running' | 'success' | 'error';
+  error?: string;
+  error_class?: string;
+  error_stack?: string;
+  error_attributes?: Record<string, any>;
+  failed_step_id?: string;
+  project_id?: string;
+}
+
+export interface RecordMetricJobData {
+  metric_id: string;
+  run_id: string;
+  step_id?: string; // unset for run-level metrics
+  name: string;
+  value: number;
+  unit?: string;
+  recorded_at?: string;
+  pipeline?: string;
+  project_id?: string;
+}
+
+/**
+ * Validate run tags (array of strings) and attributes (plain object).
+ * Returns an error message, or undefined if both are valid or absent.
+ */
+export function runLabelError(tags: any, attributes: any): string | undefined {
+  if (tags !== undefined && (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string'))) {
+    return 'tags must be an array of strings';
+  }
+  if (attributes !== undefined && (typeof attributes !== 'object' || attributes === null || Array.isArray(attributes))) {
+    return 'attributes must be an object';
+  }
+  return undefined;
 }
 
 export async function processCreateRun(job: Job<CreateRunJobData>): Promise<void> {
-  const { run_id, pipeline, input, started_at, status } = job.data;
+  const { run_id, pipeline, input, started_at, status, tags, attributes, project_id } = job.data;
 
   if (!run_id || !pipeline || !started_at) {
     throw new Error('Missing required fields: run_id, pipeline, started_at');
   }
 
+  const invalid = runLabelError(tags, attributes);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+
+  await runModel.assertRunInProject(run_id, project_id);
+
   await runModel.createRun({
     run_id,
     pipeline,
     input,
     started_at,
     status: status || 'running',
+    tags,
+    attributes,
+    project_id,
   });
 }
 
 export async function processUpdateRun(job: Job<UpdateRunJobData>): Promise<void> {
-  const { run_id, ended_at, status } = job.data;
+  const { run_id, ended_at, status, error, error_class, error_stack, error_attributes, failed_step_id, project_id } =
+    job.data;
 
   if (!run_id) {
     throw new Error('Missing required field: run_id');
   }
 
-  await runModel.updateRun(run_id, { ended_at, status });
+  await runModel.updateRun(
+    run_id,
+    {
+      ended_at,
+      status,
+      error,
+      error_class,
+      error_stack,
+      error_attributes,
+      failed_step_id,
+    },
+    project_id
+  );
 }
 
+export async function processRecordMetric(job: Job<RecordMetricJobData>): Promise<void> {
+  const { metric_id, run_id, step_id, name, value, unit, recorded_at, pipeline, project_id } = job.data;
+
+  if (!metric_id || !run_id || !name) {
+    throw new Error('Missing required fields: metric_id, run_id, name');
+  }
+
+  if (typeof value !== 'number' || !isFinite(value)) {
+    throw new Error('value must be a finite number');
+  }
+
+  // Ensure the run/step exist (handles race condition where the metric arrives first)
+  await runModel.ensureRunExists(run_id, pipeline, project_id);
+  if (step_id) {
+    await stepModel.ensureStepExists(step_id, run_id, project_id);
+  }
+
+  await metricModel.recordMetric({
+    metric_id,
+    run_id,
+    step_id,
+    name,
+    value,
+    unit,
+    recorded_at: recorded_at || new Date().toISOString(),
+  });
+}
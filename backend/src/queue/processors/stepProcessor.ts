@@ -4,15 +4,32 @@
 
 import { Job } from 'bullmq';
 import * as stepModel from '../../models/step';
+import * as llmCallModel from '../../models/llmCall';
+import * as stepTypeModel from '../../models/stepType';
 import * as runModel from '../../models/run';
 
 export interface CreateStepJobData {
   step_id: string;
   run_id: string;
   name: string;
-  type: 'filter' | 'rank' | 'generate' | 'select';
+  type: string;
   metadata?: any;
   pipeline?: string;
+  started_at?: string;
+  parent_step_ids?: string[];
+  project_id?: string;
+}
+
+export interface EndStepJobData {
+  step_id: string;
+  run_id?: string;
+  ended_at?: string;
+  status?: 'success' | 'error';
+  error?: string;
+  error_class?: string;
+  error_stack?: string;
+  error_attributes?: Record<string, any>;
+  project_id?: string;
 }
 
 export interface UpdateStepSummaryJobData {
@@ -20,22 +37,66 @@ export interface UpdateStepSummaryJobData {
   input_count?: number;
   output_count?: number;
   rejection_breakdown?: Record<string, number>;
+  reason_code_breakdown?: Record<string, number>;
   run_id?: string;
+  project_id?: string;
+}
+
+export interface CreateLLMCallJobData {
+  call_id: string;
+  step_id: string;
+  run_id?: string;
+  provider?: string;
+  model: string;
+  prompt?: string | Array<{ role: string; content: any }>;
+  completion?: string;
+  temperature?: number;
+  parameters?: Record<string, any>;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  cost_usd?: number;
+  latency_ms?: number;
+  started_at?: string;
+  project_id?: string;
+}
+
+function hasEntries(value?: Record<string, number>): boolean {
+  return !!value && typeof value === 'object' && Object.keys(value).length > 0;
+}
+
+function sumCounts(counts: Record<string, number>): number {
+  return Object.values(counts).reduce(
+    (sum: number, value: any) => sum + (typeof value === 'number' ? value : 0),
+    0
+  );
 }
 
 export async function processCreateStep(job: Job<CreateStepJobData>): Promise<void> {
-  const { step_id, run_id, name, type, metadata, pipeline } = job.data;
+  const { step_id, run_id, name, type, metadata, pipeline, started_at, parent_step_ids, project_id } = job.data;
 
   if (!step_id || !run_id || !name || !type) {
     throw new Error('Missing required fields: step_id, run_id, name, type');
   }
 
-  if (!['filter', 'rank', 'generate', 'select'].includes(type)) {
-    throw new Error('Invalid step type');
+  if (!(await stepTypeModel.isRegisteredStepType(type))) {
+    throw new Error(`Invalid step type: ${type}`);
+  }
+
+  if (parent_step_ids !== undefined && !stepModel.isStepIdList(parent_step_ids)) {
+    throw new Error('Invalid parent_step_ids');
   }
 
   // Ensure run exists (handles race condition where step arrives before run creation)
-  await runModel.ensureRunExists(run_id, pipeline);
+  await runModel.ensureRunExists(run_id, pipeline, project_id);
+  // Only checks ownership here: a step id already used by another project is refused
+  await stepModel.ensureStepExists(step_id, undefined, project_id);
+
+  // Parents may not have arrived yet, but one that exists must be this project's
+  const foreignParents = await stepModel.findStepsInOtherProjects(parent_step_ids || [], project_id);
+  if (foreignParents.length > 0) {
+    throw new Error(`Parent steps belong to another project: ${foreignParents.join(', ')}`);
+  }
 
   await stepModel.createStep({
     step_id,
@@ -43,30 +104,52 @@ export async function processCreateStep(job: Job<CreateStepJobData>): Promise<vo
     name,
     type,
     metadata: metadata || {},
+    started_at,
+    parent_step_ids: parent_step_ids || [],
+    project_id,
   });
 }
 
+export async function processEndStep(job: Job<EndStepJobData>): Promise<void> {
+  const { step_id, run_id, ended_at, status, error, error_class, error_stack, error_attributes, project_id } = job.data;
+
+  if (!step_id) {
+    throw new Error('Missing required field: step_id');
+  }
+
+  if (status && !['success', 'error'].includes(status)) {
+    throw new Error('Invalid step status');
+  }
+
+  // Ensure step exists (handles race condition where end arrives before step creation)
+  await stepModel.ensureStepExists(step_id, run_id, project_id);
+
+  await stepModel.endStep(step_id, { ended_at, status, error, error_class, error_stack, error_attributes }, project_id);
+}
+
 export async function processUpdateStepSummary(job: Job<UpdateStepSummaryJobData>): Promise<void> {
-  const { step_id, input_count, output_count, rejection_breakdown, run_id } = job.data;
+  const { step_id, input_count, output_count, rejection_breakdown, reason_code_breakdown, run_id, project_id } =
+    job.data;
 
   if (!step_id) {
     throw new Error('Missing required field: step_id');
   }
 
   // Ensure step exists (handles race condition where summary arrives before step creation)
-  if (run_id) {
-    await stepModel.ensureStepExists(step_id, run_id);
+  await stepModel.ensureStepExists(step_id, run_id, project_id);
+
+  if (reason_code_breakdown !== undefined && !stepModel.isCountMap(reason_code_breakdown)) {
+    throw new Error('Invalid reason_code_breakdown');
   }
 
   // Calculate rejected and accepted.
-  // Prefer explicit rejection_breakdown if provided; fall back to counts.
+  // Prefer an explicit (non-empty) rejection_breakdown, then reason_code_breakdown; fall back to counts.
   const accepted = output_count || 0;
   let rejected = 0;
-  if (rejection_breakdown && typeof rejection_breakdown === 'object') {
-    rejected = Object.values(rejection_breakdown).reduce(
-      (sum: number, value: any) => sum + (typeof value === 'number' ? value : 0),
-      0
-    );
+  if (hasEntries(rejection_breakdown)) {
+    rejected = sumCounts(rejection_breakdown!);
+  } else if (hasEntries(reason_code_breakdown)) {
+    rejected = sumCounts(reason_code_breakdown!);
   } else {
     rejected = (input_count || 0) - accepted;
   }
@@ -78,9 +161,26 @@ export async function processUpdateStepSummary(job: Job<UpdateStepSummaryJobData
       rejected,
       accepted,
       rejection_breakdown: rejection_breakdown || {},
+      reason_code_breakdown: reason_code_breakdown || {},
     },
     input_count,
     output_count
   );
 }
 
+export async function processCreateLLMCall(job: Job<CreateLLMCallJobData>): Promise<void> {
+  const { run_id, project_id, ...call } = job.data;
+
+  if (!call.call_id || !call.step_id || !call.model) {
+    throw new Error('Missing required fields: call_id, step_id, model');
+  }
+
+  if (call.prompt !== undefined && typeof call.prompt !== 'string' && !Array.isArray(call.prompt)) {
+    throw new Error('prompt must be a string or an array of messages');
+  }
+
+  // Ensure step exists (handles race condition where the call arrives before step creation)
+  await stepModel.ensureStepExists(call.step_id, run_id, project_id);
+
+  await llmCallModel.createLLMCall(call);
+}
@@ -0,0 +1,124 @@
+/**
+ * Admin API routes: dead-letter inspection and replay of failed ingestion jobs.
+ */
+
+import { Router, Request, Response } from 'express';
+import {
+  resolveQueues,
+  listFailedJobs,
+  getJobDetails,
+  retryJob,
+  retryFailedJobs,
+  discardFailedJobs,
+  getQueueCounts,
+} from '../queue/deadLetter';
+
+const router = Router();
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+function unknownQueue(res: Response, queueName: string) {
+  return res.status(404).json({ error: `Unknown queue: ${queueName}` });
+}
+
+// GET /admin/jobs/counts - Job counts by state per queue
+router.get('/jobs/counts', async (req: Request, res: Response) => {
+  try {
+    res.json(await getQueueCounts());
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error getting queue counts:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /admin/jobs/failed - List failed jobs, most recent first (?queue=steps&limit=&offset=)
+router.get('/jobs/failed', async (req: Request, res: Response) => {
+  try {
+    const queueName = req.query.queue as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_LIMIT;
+    const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : 0;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return res.status(400).json({ error: `limit must be between 1 and ${MAX_LIMIT}` });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ error: 'offset must be a non-negative integer' });
+    }
+
+    const queues = resolveQueues(queueName);
+    if (!queues) return unknownQueue(res, queueName!);
+
+    res.json(await listFailedJobs(queues, limit, offset));
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error listing failed jobs:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /admin/jobs/failed/retry - Retry failed jobs whose error contains a pattern: { pattern, queue? }
+// POST /admin/jobs/failed/discard - Remove failed jobs whose error contains a pattern: { pattern, queue? }
+router.post('/jobs/failed/:action(retry|discard)', async (req: Request, res: Response) => {
+  try {
+    const { pattern, queue: queueName } = req.body;
+
+    // An explicit '' matches every failed job
+    if (typeof pattern !== 'string') {
+      return res.status(400).json({ error: 'Missing required field: pattern (use "" to match all failed jobs)' });
+    }
+
+    const queues = resolveQueues(queueName);
+    if (!queues) return unknownQueue(res, queueName);
+
+    const result =
+      req.params.action === 'retry' ? await retryFailedJobs(queues, pattern) : await discardFailedJobs(queues, pattern);
+    res.json(result);
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error(`Error running bulk ${req.params.action}:`, errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /admin/jobs/:queue/:id - Job payload, state, failure reason and stack
+router.get('/jobs/:queue/:id', async (req: Request, res: Response) => {
+  try {
+    const queues = resolveQueues(req.params.queue);
+    if (!queues) return unknownQueue(res, req.params.queue);
+
+    const job = await getJobDetails(queues[0], req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    res.json(job);
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error getting job:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /admin/jobs/:queue/:id/retry - Move a failed job back to waiting with fresh attempts
+router.post('/jobs/:queue/:id/retry', async (req: Request, res: Response) => {
+  try {
+    const queues = resolveQueues(req.params.queue);
+    if (!queues) return unknownQueue(res, req.params.queue);
+
+    const result = await retryJob(queues[0], req.params.id);
+    if (result === 'not_found') {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+    if (result === 'not_failed') {
+      return res.status(409).json({ error: 'Only failed jobs can be retried' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error retrying job:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
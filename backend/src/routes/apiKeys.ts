@@ -0,0 +1,91 @@
+/**
+ * API key management routes (admin scope; keys of the caller's own project only).
+ */
+
+import { Router, Request, Response } from 'express';
+import { projectOf } from '../middleware/auth';
+
+const router = Router();
+
+// Helper to handle database errors
+function handleDatabaseError(error: any, res: Response): boolean {
+  const errorMessage = error?.message || error?.toString() || 'Unknown error';
+
+  if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('connect')) {
+    res.status(503).json({
+      error: 'Database unavailable',
+      message: 'PostgreSQL is not running. Please start PostgreSQL and ensure the database exists.'
+    });
+    return true;
+  }
+  return false;
+}
+
+// GET /api-keys - List the project's keys (hashes are never returned)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    // Import here to avoid circular dependency issues
+    const projectModel = await import('../models/project');
+    const keys = await projectModel.listApiKeys(projectOf(req));
+    res.json(keys);
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error listing API keys:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api-keys - Create a key for the project; the key is only returned here
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { name, scopes } = req.body;
+
+    // Import here to avoid circular dependency issues
+    const projectModel = await import('../models/project');
+
+    if (!name || typeof name !== 'string') {
+      return res.status(400).json({ error: 'Missing required field: name' });
+    }
+
+    if (
+      !Array.isArray(scopes) ||
+      scopes.length === 0 ||
+      !scopes.every((scope) => projectModel.API_KEY_SCOPES.includes(scope))
+    ) {
+      return res.status(400).json({ error: `scopes must be a non-empty array of: ${projectModel.API_KEY_SCOPES.join(', ')}` });
+    }
+
+    const { key, record } = await projectModel.createApiKey(projectOf(req), name, scopes);
+    res.status(201).json({ ...record, key });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error creating API key:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /api-keys/:id/revoke - Revoke one of the project's keys
+router.post('/:id/revoke', async (req: Request, res: Response) => {
+  try {
+    // Import here to avoid circular dependency issues
+    const projectModel = await import('../models/project');
+    const revoked = await projectModel.revokeApiKey(projectOf(req), req.params.id);
+
+    if (!revoked) {
+      return res.status(404).json({ error: 'API key not found or already revoked' });
+    }
+    res.json({ success: true });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error revoking API key:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,60 @@
+/**
+ * Error grouping API routes.
+ */
+
+import { Router, Request, Response } from 'express';
+import { projectOf } from '../middleware/auth';
+import { timeRangeError } from './validation';
+
+const router = Router();
+
+// Helper to handle database errors
+function handleDatabaseError(error: any, res: Response): boolean {
+  const errorMessage = error?.message || error?.toString() || 'Unknown error';
+
+  if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('connect')) {
+    res.status(503).json({
+      error: 'Database unavailable',
+      message: 'PostgreSQL is not running. Please start PostgreSQL and ensure the database exists.'
+    });
+    return true;
+  }
+  return false;
+}
+
+// GET /errors - Group failed runs or steps by error fingerprint (read-only, no queue needed)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const scope = (req.query.scope as string | undefined) || 'runs';
+    const pipeline = req.query.pipeline as string | undefined;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    if (scope !== 'runs' && scope !== 'steps') {
+      return res.status(400).json({ error: 'scope must be one of: runs, steps' });
+    }
+
+    const rangeError = timeRangeError(req.query);
+    if (rangeError) {
+      return res.status(400).json({ error: rangeError });
+    }
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return res.status(400).json({ error: 'limit must be a positive integer' });
+    }
+
+    // Import here to avoid circular dependency issues
+    const errorModel = await import('../models/error');
+    const groups = await errorModel.groupErrors({ project_id: projectOf(req), scope, pipeline, from, to, limit });
+    res.json(groups);
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error grouping errors:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,83 @@
+/**
+ * Batched ingestion API route.
+ *
+ * Accepts an ordered array (JSON) or NDJSON stream of typed events and
+ * fans them out to the existing queues, so one HTTP request can carry a whole run.
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { IngestEvent, enqueueEvents } from '../queue/events';
+import { projectOf } from '../middleware/auth';
+
+const router = Router();
+
+const NDJSON_TYPES = ['application/x-ndjson', 'application/ndjson'];
+
+// Clients in acknowledged delivery mode ask us to hold the response until events are persisted
+const ACK_HEADER = 'x-xray-ack';
+const ACK_TIMEOUT_MS = parseInt(process.env.XRAY_ACK_TIMEOUT_MS || '10000');
+
+router.use(express.text({ type: NDJSON_TYPES, limit: '10mb' }));
+
+/**
+ * Parse the request body into an ordered list of events.
+ * Accepts `[...]`, `{ events: [...] }` or NDJSON (one event per line).
+ */
+function parseEvents(req: Request): IngestEvent[] | null {
+  if (typeof req.body === 'string') {
+    try {
+      return req.body
+        .split('\n')
+        .map((line) => line.trim())
+        .filter((line) => line.length > 0)
+        .map((line) => JSON.parse(line));
+    } catch (error) {
+      return null;
+    }
+  }
+
+  if (Array.isArray(req.body)) return req.body;
+  if (req.body && Array.isArray(req.body.events)) return req.body.events;
+  return null;
+}
+
+// POST /ingest - Ingest a batch of typed events (enqueues jobs; with X-XRay-Ack: persisted, waits for the worker)
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const events = parseEvents(req);
+
+    if (!events || events.length === 0) {
+      return res.status(400).json({ error: 'Expected a non-empty array of events' });
+    }
+
+    const acknowledged = req.get(ACK_HEADER) === 'persisted';
+
+    let result;
+    try {
+      result = await enqueueEvents(events, {
+        projectId: projectOf(req),
+        persistTimeoutMs: acknowledged ? ACK_TIMEOUT_MS : undefined,
+      });
+    } catch (error: any) {
+      if (!acknowledged) throw error;
+
+      // Writes are idempotent, so the client can safely resend the whole batch
+      const errorMessage = error?.message || error?.toString() || 'Unknown error';
+      console.error('Error waiting for ingest batch to persist:', errorMessage);
+      return res.status(504).json({ error: 'Events not confirmed as persisted', message: errorMessage });
+    }
+
+    const { accepted, errors } = result;
+    if (accepted === 0) {
+      return res.status(400).json({ error: 'No valid events', errors });
+    }
+
+    res.status(201).json({ success: true, accepted, errors, persisted: acknowledged });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error enqueueing ingest batch:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
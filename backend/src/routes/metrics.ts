@@ -0,0 +1,112 @@
+/**
+ * Custom metrics API routes.
+ */
+
+import { Router, Request, Response } from 'express';
+import { runQueue } from '../queue/config';
+import type { RecordMetricJobData } from '../queue/processors/runProcessor';
+import { projectOf } from '../middleware/auth';
+import { timeRangeError } from './validation';
+
+const router = Router();
+
+const BUCKET_UNITS: Record<string, number> = { m: 60, h: 3600, d: 86400 };
+
+// Helper to handle database errors
+function handleDatabaseError(error: any, res: Response): boolean {
+  const errorMessage = error?.message || error?.toString() || 'Unknown error';
+
+  if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('connect')) {
+    res.status(503).json({
+      error: 'Database unavailable',
+      message: 'PostgreSQL is not running. Please start PostgreSQL and ensure the database exists.'
+    });
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Parse a bucket size like `5m`, `1h` or `1d` into seconds.
+ */
+function parseBucket(bucket: string): number | null {
+  const match = /^(\d+)([mhd])$/.exec(bucket);
+  if (!match || parseInt(match[1], 10) === 0) return null;
+  return parseInt(match[1], 10) * BUCKET_UNITS[match[2]];
+}
+
+// POST /metrics - Record a run or step metric (enqueues job)
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    const { metric_id, run_id, step_id, name, value, unit, recorded_at, pipeline } = req.body;
+
+    if (!metric_id || !run_id || !name || value === undefined) {
+      return res.status(400).json({ error: 'Missing required fields: metric_id, run_id, name, value' });
+    }
+
+    if (typeof value !== 'number' || !isFinite(value)) {
+      return res.status(400).json({ error: 'value must be a finite number' });
+    }
+
+    // Enqueue job instead of executing directly
+    await runQueue.add('record-metric', {
+      metric_id,
+      run_id,
+      step_id,
+      name,
+      value,
+      unit,
+      recorded_at,
+      pipeline,
+      project_id: projectOf(req),
+    } as RecordMetricJobData);
+
+    res.status(201).json({ success: true });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error enqueueing record metric job:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /metrics - Time series of avg/p50/p95/max per metric name (read-only, no queue needed)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const pipeline = req.query.pipeline as string | undefined;
+    const step_name = req.query.step as string | undefined;
+    const name = req.query.name as string | undefined;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const bucket_seconds = parseBucket((req.query.bucket as string | undefined) || '1h');
+
+    if (!bucket_seconds) {
+      return res.status(400).json({ error: 'bucket must be a number followed by m, h or d (e.g. 15m, 1h)' });
+    }
+
+    const rangeError = timeRangeError(req.query);
+    if (rangeError) {
+      return res.status(400).json({ error: rangeError });
+    }
+
+    // Import here to avoid circular dependency issues
+    const metricModel = await import('../models/metric');
+    const series = await metricModel.aggregateMetrics({
+      project_id: projectOf(req),
+      pipeline,
+      step_name,
+      name,
+      from,
+      to,
+      bucket_seconds,
+    });
+    res.json(series);
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error aggregating metrics:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,242 @@
+/**
+ * OTLP/HTTP JSON trace receiver.
+ *
+ * Accepts ExportTraceServiceRequest payloads (as sent to a collector's /v1/traces)
+ * and maps spans carrying `xray.*` attributes into runs and steps.
+ * Spans without `xray.kind` are ignored, so an app can point its whole trace export here.
+ */
+
+import { Router, Request, Response } from 'express';
+import { IngestEvent, enqueueEvents } from '../queue/events';
+import { projectOf } from '../middleware/auth';
+
+const router = Router();
+
+interface OtlpAnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  intValue?: string | number;
+  doubleValue?: number;
+  arrayValue?: { values?: OtlpAnyValue[] };
+  kvlistValue?: { values?: OtlpKeyValue[] };
+}
+
+interface OtlpKeyValue {
+  key: string;
+  value?: OtlpAnyValue;
+}
+
+interface OtlpSpan {
+  traceId?: string;
+  spanId?: string;
+  parentSpanId?: string;
+  name?: string;
+  startTimeUnixNano?: string | number;
+  endTimeUnixNano?: string | number;
+  attributes?: OtlpKeyValue[];
+  events?: Array<{ name?: string; timeUnixNano?: string | number; attributes?: OtlpKeyValue[] }>;
+  status?: { code?: number; message?: string };
+}
+
+// OTLP status codes
+const STATUS_ERROR = 2;
+
+function decodeValue(value?: OtlpAnyValue): any {
+  if (!value) return undefined;
+  if (value.stringValue !== undefined) return value.stringValue;
+  if (value.boolValue !== undefined) return value.boolValue;
+  if (value.intValue !== undefined) return Number(value.intValue);
+  if (value.doubleValue !== undefined) return value.doubleValue;
+  if (value.arrayValue) return (value.arrayValue.values || []).map(decodeValue);
+  if (value.kvlistValue) return decodeAttributes(value.kvlistValue.values);
+  return undefined;
+}
+
+function decodeAttributes(attributes?: OtlpKeyValue[]): Record<string, any> {
+  const result: Record<string, any> = {};
+  for (const attribute of attributes || []) {
+    result[attribute.key] = decodeValue(attribute.value);
+  }
+  return result;
+}
+
+// JSON-encoded attributes (objects are flattened to strings by OTel attribute rules)
+function parseJson(value: any): any {
+  if (typeof value !== 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    return undefined;
+  }
+}
+
+// Largest timestamp a Date can hold
+const MAX_DATE_MS = BigInt(8.64e15);
+
+// Unset (undefined) or not an integer number of nanoseconds within Date's range (null)
+function toIso(unixNano?: string | number): string | undefined | null {
+  if (unixNano === undefined || unixNano === null || unixNano === '' || Number(unixNano) === 0) return undefined;
+
+  const isInteger =
+    typeof unixNano === 'number'
+      ? Number.isInteger(unixNano) && unixNano > 0
+      : typeof unixNano === 'string' && /^\d+$/.test(unixNano);
+  if (!isInteger) return null;
+
+  const millis = BigInt(unixNano) / BigInt(1000000);
+  if (millis > MAX_DATE_MS) return null;
+  return new Date(Number(millis)).toISOString();
+}
+
+/**
+ * Map one X-Ray span to the ingest events it represents.
+ * Run spans produce run.create/run.end; step spans produce
+ * step.create, step.summary, candidate.bulk (from xray.candidate span events) and step.end.
+ * Returns { error } for an X-Ray span that cannot be mapped.
+ */
+function spanToEvents(span: OtlpSpan): IngestEvent[] | { error: string } {
+  const attrs = decodeAttributes(span.attributes);
+  const kind = attrs['xray.kind'];
+  if (kind !== 'run' && kind !== 'step') return [];
+
+  const failed = span.status?.code === STATUS_ERROR;
+  const status = failed ? 'error' : 'success';
+  const startedAt = toIso(span.startTimeUnixNano);
+  const endedAt = toIso(span.endTimeUnixNano);
+  if (startedAt === null || endedAt === null) {
+    return { error: `Invalid timestamp on span ${span.spanId || span.name || ''}`.trim() };
+  }
+  const exception = decodeAttributes(span.events?.find((e) => e.name === 'exception')?.attributes);
+  const error = failed
+    ? {
+        error: exception['exception.message'] || span.status?.message,
+        error_class: exception['exception.type'],
+        error_stack: exception['exception.stacktrace'],
+      }
+    : {};
+
+  if (kind === 'run') {
+    const runId = attrs['xray.run_id'];
+    return [
+      {
+        type: 'run.create',
+        data: { run_id: runId, pipeline: attrs['xray.pipeline'], input: parseJson(attrs['xray.input']), started_at: startedAt },
+      },
+      ...(endedAt ? [{ type: 'run.end' as const, data: { run_id: runId, ended_at: endedAt, status, ...error } }] : []),
+    ];
+  }
+
+  if (kind === 'step') {
+    const stepId = attrs['xray.step_id'];
+    const runId = attrs['xray.run_id'];
+    const events: IngestEvent[] = [
+      {
+        type: 'step.create',
+        data: {
+          step_id: stepId,
+          run_id: runId,
+          name: attrs['xray.step.name'] || span.name,
+          type: attrs['xray.step.type'],
+          metadata: parseJson(attrs['xray.step.metadata']) || {},
+          pipeline: attrs['xray.pipeline'],
+          started_at: startedAt,
+          parent_step_ids: attrs['xray.step.parent_step_ids'] || [],
+        },
+      },
+    ];
+
+    if (attrs['xray.input_count'] !== undefined || attrs['xray.output_count'] !== undefined) {
+      events.push({
+        type: 'step.summary',
+        data: {
+          step_id: stepId,
+          run_id: runId,
+          input_count: attrs['xray.input_count'],
+          output_count: attrs['xray.output_count'],
+          rejection_breakdown: parseJson(attrs['xray.rejection_breakdown']) || {},
+          reason_code_breakdown: parseJson(attrs['xray.reason_code_breakdown']),
+        },
+      });
+    }
+
+    const candidates = (span.events || [])
+      .filter((e) => e.name === 'xray.candidate')
+      .map((e) => {
+        const c = decodeAttributes(e.attributes);
+        return {
+          candidate_id: c['xray.candidate_id'],
+          decision: c['xray.decision'],
+          score: c['xray.score'],
+          reason: c['xray.reason'],
+          reason_code: c['xray.reason_code'],
+          reason_params: parseJson(c['xray.reason_params']),
+          attributes: parseJson(c['xray.attributes']),
+        };
+      });
+    if (candidates.length > 0) {
+      events.push({ type: 'candidate.bulk', data: { step_id: stepId, run_id: runId, candidates } });
+    }
+
+    if (endedAt) {
+      events.push({ type: 'step.end', data: { step_id: stepId, run_id: runId, ended_at: endedAt, status, ...error } });
+    }
+    return events;
+  }
+
+  return [];
+}
+
+// POST /v1/traces - Receive OTLP/HTTP JSON spans and map X-Ray spans to runs/steps (enqueues jobs)
+router.post('/', async (req: Request, res: Response) => {
+  try {
+    if (!req.is('application/json')) {
+      return res.status(415).json({ error: 'Only OTLP/HTTP JSON (application/json) is supported' });
+    }
+
+    const resourceSpans = req.body?.resourceSpans;
+    if (!Array.isArray(resourceSpans)) {
+      return res.status(400).json({ error: 'Expected an ExportTraceServiceRequest with resourceSpans' });
+    }
+
+    const events: IngestEvent[] = [];
+    const spanIndexOfEvent: number[] = [];
+    const invalidSpans: string[] = [];
+    let spanIndex = 0;
+    for (const resource of resourceSpans) {
+      for (const scope of resource?.scopeSpans || []) {
+        for (const span of scope?.spans || []) {
+          const mapped = spanToEvents(span);
+          if ('error' in mapped) {
+            invalidSpans.push(mapped.error);
+          } else {
+            for (const event of mapped) {
+              events.push(event);
+              spanIndexOfEvent.push(spanIndex);
+            }
+          }
+          spanIndex++;
+        }
+      }
+    }
+
+    const { errors } = events.length > 0 ? await enqueueEvents(events, { projectId: projectOf(req) }) : { errors: [] };
+
+    // OTLP partial success: report the X-Ray spans that could not be mapped
+    if (errors.length > 0 || invalidSpans.length > 0) {
+      return res.json({
+        partialSuccess: {
+          rejectedSpans: invalidSpans.length + new Set(errors.map((e) => spanIndexOfEvent[e.index])).size,
+          errorMessage: [...invalidSpans, ...errors.map((e) => e.error)].join('; '),
+        },
+      });
+    }
+
+    res.json({});
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error receiving OTLP traces:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
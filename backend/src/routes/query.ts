@@ -0,0 +1,44 @@
+/**
+ * Cross-pipeline query API routes.
+ */
+
+import { Router, Request, Response } from 'express';
+import { projectOf } from '../middleware/auth';
+
+const router = Router();
+
+// Helper to handle database errors
+function handleDatabaseError(error: any, res: Response): boolean {
+  const errorMessage = error?.message || error?.toString() || 'Unknown error';
+
+  if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('connect')) {
+    res.status(503).json({
+      error: 'Database unavailable',
+      message: 'PostgreSQL is not running. Please start PostgreSQL and ensure the database exists.'
+    });
+    return true;
+  }
+  return false;
+}
+
+// POST /query/steps - Query steps with the JSON filter DSL, with sorting, grouping and pagination (read-only, no queue needed)
+router.post('/steps', async (req: Request, res: Response) => {
+  try {
+    // Import here to avoid circular dependency issues
+    const stepModel = await import('../models/step');
+    const result = await stepModel.queryStepsByFilter(req.body ?? {}, projectOf(req));
+
+    if ('error' in result) {
+      return res.status(400).json({ error: result.error });
+    }
+    res.json(result);
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error querying steps:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
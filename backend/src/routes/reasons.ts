@@ -0,0 +1,69 @@
+/**
+ * Rejection reason API routes.
+ */
+
+import { Router, Request, Response } from 'express';
+import { projectOf } from '../middleware/auth';
+import { timeRangeError } from './validation';
+
+const router = Router();
+
+// Helper to handle database errors
+function handleDatabaseError(error: any, res: Response): boolean {
+  const errorMessage = error?.message || error?.toString() || 'Unknown error';
+
+  if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('connect')) {
+    res.status(503).json({
+      error: 'Database unavailable',
+      message: 'PostgreSQL is not running. Please start PostgreSQL and ensure the database exists.'
+    });
+    return true;
+  }
+  return false;
+}
+
+// GET /reasons - Aggregate rejection counts by reason code (read-only, no queue needed)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const pipeline = req.query.pipeline as string | undefined;
+    const step_name = req.query.step as string | undefined;
+    const step_type = req.query.type as string | undefined;
+    const step_category = req.query.category as string | undefined;
+    const reason_code = req.query.code as string | undefined;
+    const from = req.query.from as string | undefined;
+    const to = req.query.to as string | undefined;
+    const groupBy = req.query.group_by ? (req.query.group_by as string).split(',') : [];
+
+    if (groupBy.some((g) => g !== 'pipeline' && g !== 'step')) {
+      return res.status(400).json({ error: 'group_by must be a comma-separated list of: pipeline, step' });
+    }
+
+    const rangeError = timeRangeError(req.query);
+    if (rangeError) {
+      return res.status(400).json({ error: rangeError });
+    }
+
+    // Import here to avoid circular dependency issues
+    const stepModel = await import('../models/step');
+    const reasons = await stepModel.aggregateRejectionReasons({
+      project_id: projectOf(req),
+      pipeline,
+      step_name,
+      step_type,
+      step_category,
+      reason_code,
+      from,
+      to,
+      group_by: groupBy as Array<'pipeline' | 'step'>,
+    });
+    res.json(reasons);
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error aggregating rejection reasons:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -4,7 +4,9 @@
 
 import { Router, Request, Response } from 'express';
 import { runQueue } from '../queue/config';
-import type { CreateRunJobData, UpdateRunJobData } from '../queue/processors/runProcessor';
+import { CreateRunJobData, UpdateRunJobData, runLabelError } from '../queue/processors/runProcessor';
+import { projectOf } from '../middleware/auth';
+import { jsonPathFilters } from './validation';
 
 const router = Router();
 
@@ -25,12 +27,17 @@ function handleDatabaseError(error: any, res: Response): boolean {
 // POST /runs - Create a new run (enqueues job)
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { run_id, pipeline, input, started_at, status } = req.body;
+    const { run_id, pipeline, input, started_at, status, tags, attributes } = req.body;
 
     if (!run_id || !pipeline || !started_at) {
       return res.status(400).json({ error: 'Missing required fields: run_id, pipeline, started_at' });
     }
 
+    const labelError = runLabelError(tags, attributes);
+    if (labelError) {
+      return res.status(400).json({ error: labelError });
+    }
+
     // Enqueue job instead of executing directly
     await runQueue.add('create-run', {
       run_id,
@@ -38,6 +45,9 @@ router.post('/', async (req: Request, res: Response) => {
       input,
       started_at,
       status: status || 'running',
+      tags,
+      attributes,
+      project_id: projectOf(req),
     } as CreateRunJobData);
 
     res.status(201).json({ success: true });
@@ -48,16 +58,28 @@ router.post('/', async (req: Request, res: Response) => {
   }
 });
 
-// GET /runs - List runs (read-only, no queue needed)
+// GET /runs - List runs, filtered by tag, attribute and input values (read-only, no queue needed)
+// e.g. ?tag=canary&attr.region=eu&input.query~phone
 router.get('/', async (req: Request, res: Response) => {
   try {
     const pipeline = req.query.pipeline as string | undefined;
     const status = req.query.status as string | undefined;
+    const error_fingerprint = req.query.error_fingerprint as string | undefined;
     const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+    const tags = [req.query.tag ?? []].flat().filter((tag): tag is string => typeof tag === 'string');
 
     // Import here to avoid circular dependency issues
     const runModel = await import('../models/run');
-    const runs = await runModel.listRuns({ pipeline, status, limit });
+    const runs = await runModel.listRuns({
+      project_id: projectOf(req),
+      pipeline,
+      status,
+      error_fingerprint,
+      tags,
+      attributes: jsonPathFilters(req.query, 'attr'),
+      input: jsonPathFilters(req.query, 'input'),
+      limit,
+    });
     res.json(runs);
   } catch (error: any) {
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
@@ -68,18 +90,25 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
-// GET /runs/:id - Get a specific run (read-only, no queue needed)
+// GET /runs/:id - Get a specific run with its steps (read-only, no queue needed)
 router.get('/:id', async (req: Request, res: Response) => {
   try {
     // Import here to avoid circular dependency issues
     const runModel = await import('../models/run');
-    const run = await runModel.getRun(req.params.id);
+    const stepModel = await import('../models/step');
+    const run = await runModel.getRun(req.params.id, projectOf(req));
 
     if (!run) {
       return res.status(404).json({ error: 'Run not found' });
     }
 
-    res.json(run);
+    // Include the step timeline (with durations) so slow steps are visible at a glance
+    const steps = await stepModel.listSteps({ run_id: run.run_id });
+
+    res.json({
+      ...run,
+      steps,
+    });
   } catch (error: any) {
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
     console.error('Error getting run:', errorMessage);
@@ -89,16 +118,83 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
+// GET /runs/:id/graph - Get the step DAG for a run (read-only, no queue needed)
+router.get('/:id/graph', async (req: Request, res: Response) => {
+  try {
+    // Import here to avoid circular dependency issues
+    const runModel = await import('../models/run');
+    const stepModel = await import('../models/step');
+    const run = await runModel.getRun(req.params.id, projectOf(req));
+
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const graph = await stepModel.getRunGraph(run.run_id);
+    res.json({
+      run_id: run.run_id,
+      ...graph,
+    });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error getting run graph:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// GET /runs/:id/candidates/:candidateId/journey - Follow one candidate through a run (read-only, no queue needed)
+router.get('/:id/candidates/:candidateId/journey', async (req: Request, res: Response) => {
+  try {
+    // Import here to avoid circular dependency issues
+    const runModel = await import('../models/run');
+    const candidateModel = await import('../models/candidate');
+    const run = await runModel.getRun(req.params.id, projectOf(req));
+
+    if (!run) {
+      return res.status(404).json({ error: 'Run not found' });
+    }
+
+    const steps = await candidateModel.getCandidateJourney(run.run_id, req.params.candidateId);
+
+    if (steps.length === 0) {
+      return res.status(404).json({ error: 'Candidate not found in run' });
+    }
+
+    const firstRejection = steps.find((s) => s.first_rejection);
+
+    res.json({
+      run_id: run.run_id,
+      candidate_id: req.params.candidateId,
+      first_rejected_step_id: firstRejection?.step_id ?? null,
+      steps,
+    });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error getting candidate journey:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /runs/:id - Update run (for ending runs - SDK uses POST) (enqueues job)
 router.post('/:id', async (req: Request, res: Response) => {
   try {
-    const { ended_at, status } = req.body;
+    const { ended_at, status, error, error_class, error_stack, error_attributes, failed_step_id } = req.body;
 
     // Enqueue job instead of executing directly
     await runQueue.add('update-run', {
       run_id: req.params.id,
       ended_at,
       status,
+      error,
+      error_class,
+      error_stack,
+      error_attributes,
+      failed_step_id,
+      project_id: projectOf(req),
     } as UpdateRunJobData);
 
     res.json({ success: true });
@@ -0,0 +1,82 @@
+/**
+ * Step type registry API routes.
+ */
+
+import { Router, Request, Response } from 'express';
+import { requireApiKey, requireScope, requireOperator } from '../middleware/auth';
+
+const router = Router();
+
+// Type names are stored in steps.type VARCHAR(50)
+const STEP_TYPE_NAME = /^[a-z][a-z0-9_]{0,49}$/;
+
+// Helper to handle database errors
+function handleDatabaseError(error: any, res: Response): boolean {
+  const errorMessage = error?.message || error?.toString() || 'Unknown error';
+
+  if (errorMessage.includes('ECONNREFUSED') || errorMessage.includes('connect')) {
+    res.status(503).json({
+      error: 'Database unavailable',
+      message: 'PostgreSQL is not running. Please start PostgreSQL and ensure the database exists.'
+    });
+    return true;
+  }
+  return false;
+}
+
+// GET /step-types - List registered step types with their categories (read-only, no queue needed)
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    // Import here to avoid circular dependency issues
+    const stepTypeModel = await import('../models/stepType');
+    const stepTypes = await stepTypeModel.listStepTypes();
+    res.json(stepTypes);
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error listing step types:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /step-types - Register a step type (operators only: the registry is shared by every project; written directly: steps are validated against it)
+router.post('/', requireApiKey, requireScope('admin'), requireOperator, async (req: Request, res: Response) => {
+  try {
+    const { name, category, description } = req.body;
+
+    // Import here to avoid circular dependency issues
+    const stepTypeModel = await import('../models/stepType');
+
+    if (!name || !category) {
+      return res.status(400).json({ error: 'Missing required fields: name, category' });
+    }
+
+    if (typeof name !== 'string' || !STEP_TYPE_NAME.test(name)) {
+      return res.status(400).json({ error: 'name must be lowercase letters, digits and underscores (max 50)' });
+    }
+
+    if (!stepTypeModel.isStepCategory(category)) {
+      return res.status(400).json({ error: `category must be one of: ${stepTypeModel.STEP_CATEGORIES.join(', ')}` });
+    }
+
+    // Built-in types define their categories
+    if ((stepTypeModel.STEP_CATEGORIES as string[]).includes(name) && name !== category) {
+      return res.status(400).json({ error: `Built-in step type ${name} cannot change category` });
+    }
+
+    const registered = await stepTypeModel.registerStepType({ name, category, description });
+    if (!registered) {
+      return res.status(409).json({ error: `Step type ${name} is in use and cannot change category` });
+    }
+    res.status(201).json({ success: true });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error registering step type:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -4,8 +4,14 @@
 
 import { Router, Request, Response } from 'express';
 import { stepQueue, candidateQueue } from '../queue/config';
-import type { CreateStepJobData, UpdateStepSummaryJobData } from '../queue/processors/stepProcessor';
+import type {
+  CreateStepJobData,
+  UpdateStepSummaryJobData,
+  EndStepJobData,
+  CreateLLMCallJobData,
+} from '../queue/processors/stepProcessor';
 import type { CreateCandidateJobData, CreateCandidatesBulkJobData } from '../queue/processors/candidateProcessor';
+import { projectOf } from '../middleware/auth';
 
 const router = Router();
 
@@ -26,14 +32,21 @@ function handleDatabaseError(error: any, res: Response): boolean {
 // POST /steps - Create a new step (enqueues job)
 router.post('/', async (req: Request, res: Response) => {
   try {
-    const { step_id, run_id, name, type, metadata, pipeline } = req.body;
+    const { step_id, run_id, name, type, metadata, pipeline, started_at, parent_step_ids } = req.body;
 
     if (!step_id || !run_id || !name || !type) {
       return res.status(400).json({ error: 'Missing required fields: step_id, run_id, name, type' });
     }
 
-    if (!['filter', 'rank', 'generate', 'select'].includes(type)) {
-      return res.status(400).json({ error: 'Invalid step type' });
+    // Import here to avoid circular dependency issues
+    const stepTypeModel = await import('../models/stepType');
+    if (typeof type !== 'string' || !(await stepTypeModel.isRegisteredStepType(type))) {
+      return res.status(400).json({ error: 'Invalid step type (register it via POST /step-types)' });
+    }
+
+    const stepModel = await import('../models/step');
+    if (parent_step_ids !== undefined && !stepModel.isStepIdList(parent_step_ids)) {
+      return res.status(400).json({ error: 'parent_step_ids must be an array of step ids (UUIDs)' });
     }
 
     // Enqueue job instead of executing directly
@@ -44,12 +57,17 @@ router.post('/', async (req: Request, res: Response) => {
       type,
       metadata: metadata || {},
       pipeline,
+      started_at,
+      parent_step_ids,
+      project_id: projectOf(req),
     } as CreateStepJobData);
 
     res.status(201).json({ success: true });
   } catch (error: any) {
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
     console.error('Error enqueueing create step job:', errorMessage);
+
+    if (handleDatabaseError(error, res)) return;
     res.status(500).json({ error: 'Internal server error' });
   }
 });
@@ -58,7 +76,13 @@ router.post('/', async (req: Request, res: Response) => {
 router.post('/:id/summary', async (req: Request, res: Response) => {
   try {
     const stepId = req.params.id;
-    const { input_count, output_count, rejection_breakdown, run_id } = req.body;
+    const { input_count, output_count, rejection_breakdown, reason_code_breakdown, run_id } = req.body;
+
+    // Import here to avoid circular dependency issues
+    const stepModel = await import('../models/step');
+    if (reason_code_breakdown !== undefined && !stepModel.isCountMap(reason_code_breakdown)) {
+      return res.status(400).json({ error: 'reason_code_breakdown must map reason codes to non-negative integer counts' });
+    }
 
     // Enqueue job instead of executing directly
     await stepQueue.add('update-step-summary', {
@@ -66,7 +90,9 @@ router.post('/:id/summary', async (req: Request, res: Response) => {
       input_count,
       output_count,
       rejection_breakdown,
+      reason_code_breakdown,
       run_id,
+      project_id: projectOf(req),
     } as UpdateStepSummaryJobData);
 
     res.json({ success: true });
@@ -77,11 +103,99 @@ router.post('/:id/summary', async (req: Request, res: Response) => {
   }
 });
 
+// POST /steps/:id/end - Record step end time and status (enqueues job)
+router.post('/:id/end', async (req: Request, res: Response) => {
+  try {
+    const stepId = req.params.id;
+    const { ended_at, status, error, error_class, error_stack, error_attributes, run_id } = req.body;
+
+    if (status && !['success', 'error'].includes(status)) {
+      return res.status(400).json({ error: 'Invalid step status' });
+    }
+
+    // Enqueue job instead of executing directly
+    await stepQueue.add('end-step', {
+      step_id: stepId,
+      run_id,
+      ended_at,
+      status,
+      error,
+      error_class,
+      error_stack,
+      error_attributes,
+      project_id: projectOf(req),
+    } as EndStepJobData);
+
+    res.json({ success: true });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error enqueueing end step job:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
+// POST /steps/:id/llm-calls - Record an LLM call made within the step (enqueues job)
+router.post('/:id/llm-calls', async (req: Request, res: Response) => {
+  try {
+    const stepId = req.params.id;
+    const {
+      call_id,
+      run_id,
+      provider,
+      model,
+      prompt,
+      completion,
+      temperature,
+      parameters,
+      prompt_tokens,
+      completion_tokens,
+      total_tokens,
+      cost_usd,
+      latency_ms,
+      started_at,
+    } = req.body;
+
+    if (!call_id || !model) {
+      return res.status(400).json({ error: 'Missing required fields: call_id, model' });
+    }
+
+    if (prompt !== undefined && typeof prompt !== 'string' && !Array.isArray(prompt)) {
+      return res.status(400).json({ error: 'prompt must be a string or an array of messages' });
+    }
+
+    // Enqueue job instead of executing directly
+    await stepQueue.add('create-llm-call', {
+      call_id,
+      step_id: stepId,
+      run_id,
+      provider,
+      model,
+      prompt,
+      completion,
+      temperature,
+      parameters,
+      prompt_tokens,
+      completion_tokens,
+      total_tokens,
+      cost_usd,
+      latency_ms,
+      started_at,
+      project_id: projectOf(req),
+    } as CreateLLMCallJobData);
+
+    res.status(201).json({ success: true });
+  } catch (error: any) {
+    const errorMessage = error?.message || error?.toString() || 'Unknown error';
+    console.error('Error enqueueing create LLM call job:', errorMessage);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 // POST /steps/:id/candidates - Add candidate record (enqueues job)
 router.post('/:id/candidates', async (req: Request, res: Response) => {
   try {
     const stepId = req.params.id;
-    const { candidate_id, decision, score, reason, run_id } = req.body;
+    const { candidate_id, decision, score, reason, reason_code, reason_params, attributes, run_id } = req.body;
 
     if (!candidate_id || !decision) {
       return res.status(400).json({ error: 'Missing required fields: candidate_id, decision' });
@@ -91,6 +205,10 @@ router.post('/:id/candidates', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Invalid decision' });
     }
 
+    if (attributes !== undefined && (typeof attributes !== 'object' || attributes === null || Array.isArray(attributes))) {
+      return res.status(400).json({ error: 'attributes must be an object' });
+    }
+
     // Enqueue job instead of executing directly
     await candidateQueue.add('create-candidate', {
       candidate_id,
@@ -98,7 +216,11 @@ router.post('/:id/candidates', async (req: Request, res: Response) => {
       decision,
       score,
       reason,
+      reason_code,
+      reason_params,
+      attributes,
       run_id,
+      project_id: projectOf(req),
     } as CreateCandidateJobData);
 
     res.status(201).json({ success: true });
@@ -114,7 +236,15 @@ router.post('/:id/candidates/bulk', async (req: Request, res: Response) => {
   try {
     const stepId = req.params.id;
     const { candidates, run_id } = req.body as {
-      candidates: { candidate_id: string; decision: 'accepted' | 'rejected'; score?: number; reason?: string }[];
+      candidates: {
+        candidate_id: string;
+        decision: 'accepted' | 'rejected';
+        score?: number;
+        reason?: string;
+        reason_code?: string;
+        reason_params?: Record<string, any>;
+        attributes?: Record<string, any>;
+      }[];
       run_id?: string;
     };
 
@@ -127,6 +257,7 @@ router.post('/:id/candidates/bulk', async (req: Request, res: Response) => {
       step_id: stepId,
       candidates,
       run_id,
+      project_id: projectOf(req),
     } as CreateCandidatesBulkJobData);
 
     res.status(201).json({ success: true });
@@ -142,11 +273,12 @@ router.get('/', async (req: Request, res: Response) => {
   try {
     const run_id = req.query.run_id as string | undefined;
     const type = req.query.type as string | undefined;
+    const category = req.query.category as string | undefined;
     const name = req.query.name as string | undefined;
 
     // Import here to avoid circular dependency issues
     const stepModel = await import('../models/step');
-    const steps = await stepModel.listSteps({ run_id, type: type as any, name });
+    const steps = await stepModel.listSteps({ project_id: projectOf(req), run_id, type, category, name });
     res.json(steps);
   } catch (error: any) {
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
@@ -157,14 +289,15 @@ router.get('/', async (req: Request, res: Response) => {
   }
 });
 
-// GET /steps/:id - Get a specific step with summary and candidates (read-only, no queue needed)
+// GET /steps/:id - Get a specific step with summary, LLM calls and (optionally filtered) candidates (read-only, no queue needed)
 router.get('/:id', async (req: Request, res: Response) => {
   try {
     // Import here to avoid circular dependency issues
     const stepModel = await import('../models/step');
     const candidateModel = await import('../models/candidate');
+    const llmCallModel = await import('../models/llmCall');
     
-    const step = await stepModel.getStep(req.params.id);
+    const step = await stepModel.getStep(req.params.id, projectOf(req));
 
     if (!step) {
       return res.status(404).json({ error: 'Step not found' });
@@ -173,12 +306,26 @@ router.get('/:id', async (req: Request, res: Response) => {
     // Get summary
     const summary = await stepModel.getStepSummary(step.step_id);
 
-    // Get candidates
-    const candidates = await candidateModel.getCandidatesByStep(step.step_id);
+    // Get candidates, optionally filtered by attribute paths (?attributes.category=desk_accessories)
+    const attributeFilters: Record<string, string> = {};
+    for (const [key, value] of Object.entries(req.query)) {
+      if (key.startsWith('attributes.') && key.length > 'attributes.'.length && typeof value === 'string') {
+        attributeFilters[key.slice('attributes.'.length)] = value;
+      }
+    }
+    const reasonCode = req.query.reason_code as string | undefined;
+    const candidates = await candidateModel.getCandidatesByStep(step.step_id, {
+      attributes: attributeFilters,
+      reason_code: reasonCode,
+    });
+
+    // LLM calls (prompt, completion, model, usage) that produced this step's output
+    const llmCalls = await llmCallModel.getLLMCallsByStep(step.step_id);
 
     res.json({
       ...step,
       summary,
+      llm_calls: llmCalls,
       candidates,
     });
   } catch (error: any) {
@@ -190,14 +337,21 @@ router.get('/:id', async (req: Request, res: Response) => {
   }
 });
 
-// GET /steps/query/high-rejection - Query for steps with high rejection rates (read-only, no queue needed)
+// GET /steps/query/high-rejection - Query for steps with high rejection rates, across every step type in a category (read-only, no queue needed)
 router.get('/query/high-rejection', async (req: Request, res: Response) => {
   try {
     const threshold = req.query.threshold ? parseFloat(req.query.threshold as string) : 0.9;
+    const category = (req.query.category as string | undefined) || 'filter';
 
     // Import here to avoid circular dependency issues
     const stepModel = await import('../models/step');
-    const steps = await stepModel.findFilteringStepsWithHighRejectionRate(threshold);
+    const stepTypeModel = await import('../models/stepType');
+
+    if (!stepTypeModel.isStepCategory(category)) {
+      return res.status(400).json({ error: `category must be one of: ${stepTypeModel.STEP_CATEGORIES.join(', ')}` });
+    }
+
+    const steps = await stepModel.findFilteringStepsWithHighRejectionRate(threshold, category, projectOf(req));
     res.json(steps);
   } catch (error: any) {
     const errorMessage = error?.message || error?.toString() || 'Unknown error';
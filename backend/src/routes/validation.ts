@@ -0,0 +1,46 @@
+/**
+ * Query parameter parsing and checks shared by the read-only routes.
+ */
+
+import { Request } from 'express';
+import type { JsonPathFilter } from '../models/run';
+
+/**
+ * Validate the optional `from`/`to` query parameters.
+ * Returns the message for a 400 response, or undefined when both are absent or parse as dates.
+ */
+export function timeRangeError(query: Request['query']): string | undefined {
+  for (const key of ['from', 'to']) {
+    const value = query[key];
+    if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+      return `${key} must be an ISO timestamp`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Collect `<prefix>.<path>=<value>` (exact) and `<prefix>.<path>~<value>` (substring) query filters.
+ * `a.b~phone` arrives as a key with an empty value; `a.b~=phone` works too.
+ */
+export function jsonPathFilters(query: Request['query'], prefix: string): JsonPathFilter[] {
+  const filters: JsonPathFilter[] = [];
+
+  for (const [key, raw] of Object.entries(query)) {
+    if (!key.startsWith(`${prefix}.`)) continue;
+    const values = (Array.isArray(raw) ? raw : [raw]).filter((v): v is string => typeof v === 'string');
+    const tilde = key.indexOf('~');
+    const path = (tilde === -1 ? key : key.slice(0, tilde)).slice(prefix.length + 1);
+    if (!path) continue;
+
+    for (const value of values) {
+      filters.push(
+        tilde === -1
+          ? { path: path.split('.'), value, match: 'equals' }
+          : { path: path.split('.'), value: key.slice(tilde + 1) + value, match: 'contains' }
+      );
+    }
+  }
+
+  return filters;
+}
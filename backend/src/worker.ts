@@ -3,30 +3,19 @@
  */
 
 import { Worker, WorkerOptions } from 'bullmq';
-import {  redisConnection, redisConfig } from './queue/config';
-import {
-  processCreateRun,
-  processUpdateRun,
-  type CreateRunJobData,
-  type UpdateRunJobData,
-} from './queue/processors/runProcessor';
-import {
-  processCreateStep,
-  processUpdateStepSummary,
-  type CreateStepJobData,
-  type UpdateStepSummaryJobData,
-} from './queue/processors/stepProcessor';
-import {
-  processCreateCandidate,
-  processCreateCandidatesBulk,
-  type CreateCandidateJobData,
-  type CreateCandidatesBulkJobData,
-} from './queue/processors/candidateProcessor';
+import { redisConnection, redisConfig, queueMode } from './queue/config';
+import { runJobHandler, stepJobHandler, candidateJobHandler, JOB_CONCURRENCY } from './queue/handlers';
+
+// In embedded mode the API server processes jobs itself
+if (queueMode === 'embedded') {
+  console.error('XRAY_QUEUE_MODE=embedded: jobs are processed by the API server, no worker is needed.');
+  process.exit(1);
+}
 
 // Worker options
 const workerOptions: WorkerOptions = {
   connection: redisConfig,
-  concurrency: 10, // Process up to 10 jobs concurrently
+  concurrency: JOB_CONCURRENCY, // Up to 10 jobs concurrently (more with group commit, to fill batches)
   limiter: {
     max: 100, // Max 100 jobs
     duration: 1000, // Per second
@@ -34,79 +23,13 @@ const workerOptions: WorkerOptions = {
 };
 
 // Run Worker
-const runWorker = new Worker<CreateRunJobData | UpdateRunJobData>(
-  'runs',
-  async (job) => {
-    console.log(`[Run Worker] Processing job ${job.id} of type ${job.name}`);
-    
-    try {
-      if (job.name === 'create-run') {
-        await processCreateRun(job as any);
-      } else if (job.name === 'update-run') {
-        await processUpdateRun(job as any);
-      } else {
-        throw new Error(`Unknown job type: ${job.name}`);
-      }
-      
-      console.log(`[Run Worker] Successfully processed job ${job.id}`);
-    } catch (error: any) {
-      const errorMessage = error?.message || error?.toString() || 'Unknown error';
-      console.error(`[Run Worker] Error processing job ${job.id}:`, errorMessage);
-      throw error; // Re-throw to mark job as failed
-    }
-  },
-  workerOptions
-);
+const runWorker = new Worker('runs', runJobHandler, workerOptions);
 
 // Step Worker
-const stepWorker = new Worker<CreateStepJobData | UpdateStepSummaryJobData>(
-  'steps',
-  async (job) => {
-    console.log(`[Step Worker] Processing job ${job.id} of type ${job.name}`);
-    
-    try {
-      if (job.name === 'create-step') {
-        await processCreateStep(job as any);
-      } else if (job.name === 'update-step-summary') {
-        await processUpdateStepSummary(job as any);
-      } else {
-        throw new Error(`Unknown job type: ${job.name}`);
-      }
-      
-      console.log(`[Step Worker] Successfully processed job ${job.id}`);
-    } catch (error: any) {
-      const errorMessage = error?.message || error?.toString() || 'Unknown error';
-      console.error(`[Step Worker] Error processing job ${job.id}:`, errorMessage);
-      throw error; // Re-throw to mark job as failed
-    }
-  },
-  workerOptions
-);
+const stepWorker = new Worker('steps', stepJobHandler, workerOptions);
 
 // Candidate Worker
-const candidateWorker = new Worker<CreateCandidateJobData | CreateCandidatesBulkJobData>(
-  'candidates',
-  async (job) => {
-    console.log(`[Candidate Worker] Processing job ${job.id} of type ${job.name}`);
-    
-    try {
-      if (job.name === 'create-candidate') {
-        await processCreateCandidate(job as any);
-      } else if (job.name === 'create-candidates-bulk') {
-        await processCreateCandidatesBulk(job as any);
-      } else {
-        throw new Error(`Unknown job type: ${job.name}`);
-      }
-      
-      console.log(`[Candidate Worker] Successfully processed job ${job.id}`);
-    } catch (error: any) {
-      const errorMessage = error?.message || error?.toString() || 'Unknown error';
-      console.error(`[Candidate Worker] Error processing job ${job.id}:`, errorMessage);
-      throw error; // Re-throw to mark job as failed
-    }
-  },
-  workerOptions
-);
+const candidateWorker = new Worker('candidates', candidateJobHandler, workerOptions);
 
 // Event handlers for monitoring
 runWorker.on('completed', (job) => {
@@ -143,7 +66,7 @@ const shutdown = async () => {
     candidateWorker.close(),
   ]);
   
-  await redisConnection.quit();
+  await redisConnection?.quit();
   console.log('✅ Workers shut down gracefully');
   process.exit(0);
 };
@@ -153,7 +76,7 @@ process.on('SIGINT', shutdown);
 
 console.log('🚀 X-Ray Workers started');
 console.log('   - Run Worker: processing run creation/updates');
-console.log('   - Step Worker: processing step creation/summaries');
+console.log('   - Step Worker: processing step creation/summaries/end');
 console.log('   - Candidate Worker: processing candidate records');
 console.log('\nPress Ctrl+C to stop workers\n');
 
@@ -0,0 +1,112 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Request, Response, NextFunction } from 'express';
+import * as projectModel from '../src/models/project';
+import type { ApiKeyRecord } from '../src/models/project';
+
+type Middleware = (req: Request, res: Response, next: NextFunction) => unknown;
+
+const OTHER_PROJECT_ID = '11111111-1111-1111-1111-111111111111';
+
+// Known keys, in place of the api_keys table
+const keys: Record<string, ApiKeyRecord> = {
+  'default-admin': { key_id: 'k1', project_id: projectModel.DEFAULT_PROJECT_ID, name: 'ops', key_prefix: 'def', scopes: ['admin'] },
+  'other-admin': { key_id: 'k2', project_id: OTHER_PROJECT_ID, name: 'team', key_prefix: 'oth', scopes: ['admin'] },
+  'other-ingest': { key_id: 'k3', project_id: OTHER_PROJECT_ID, name: 'sdk', key_prefix: 'ing', scopes: ['ingest'] },
+};
+(projectModel as any).findApiKey = async (key: string) => keys[key] ?? null;
+
+// authRequired is read when the module loads, so load it once per XRAY_AUTH setting
+function loadAuth(auth?: string): typeof import('../src/middleware/auth') {
+  if (auth === undefined) delete process.env.XRAY_AUTH;
+  else process.env.XRAY_AUTH = auth;
+  delete require.cache[require.resolve('../src/middleware/auth')];
+  return require('../src/middleware/auth');
+}
+
+const auth = loadAuth();
+
+function request(method: string, headers: Record<string, string> = {}): Request {
+  const lower = Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value]));
+  return { method, get: (name: string) => lower[name.toLowerCase()] } as any;
+}
+
+/**
+ * Run req through the middleware like Express does; resolves with the response status,
+ * or 'next' if every middleware passed the request on.
+ */
+async function run(chain: Middleware[], req: Request): Promise<number | 'next'> {
+  for (const middleware of chain) {
+    let status: number | undefined;
+    const res = {
+      status(code: number) {
+        status = code;
+        return this;
+      },
+      json() {
+        return this;
+      },
+    } as any;
+
+    let passed = false;
+    await middleware(req, res, () => {
+      passed = true;
+    });
+    if (!passed) return status!;
+  }
+  return 'next';
+}
+
+const adminChain = () => [auth.authenticate, auth.requireApiKey, auth.requireScope('admin'), auth.requireOperator];
+
+test('keyless requests act on the default project with ingest and read', async () => {
+  const req = request('POST');
+  assert.equal(await run([auth.authenticate], req), 'next');
+  assert.deepEqual(req.auth, { project_id: projectModel.DEFAULT_PROJECT_ID, scopes: ['ingest', 'read'] });
+
+  assert.equal(await run([auth.authenticate, auth.requireScope()], request('POST')), 'next');
+  assert.equal(await run([auth.authenticate, auth.requireScope()], request('GET')), 'next');
+});
+
+test('keyless requests cannot administer', async () => {
+  assert.equal(await run([auth.authenticate, auth.requireScope('admin')], request('GET')), 403);
+  assert.equal(await run(adminChain(), request('GET')), 401);
+  assert.equal(await run([auth.authenticate, auth.requireApiKey, auth.requireScope('admin')], request('POST')), 401);
+});
+
+test('an invalid key is rejected with 401', async () => {
+  assert.equal(await run([auth.authenticate], request('GET', { 'X-XRay-Api-Key': 'unknown' })), 401);
+  assert.equal(await run([auth.authenticate], request('GET', { Authorization: 'Bearer unknown' })), 401);
+});
+
+test('a valid key resolves to its project and scopes', async () => {
+  const req = request('GET', { Authorization: 'Bearer other-ingest' });
+  assert.equal(await run([auth.authenticate], req), 'next');
+  assert.deepEqual(req.auth, { project_id: OTHER_PROJECT_ID, scopes: ['ingest'], key_id: 'k3' });
+  assert.equal(auth.projectOf(req), OTHER_PROJECT_ID);
+
+  // ingest only: no reads
+  assert.equal(await run([auth.authenticate, auth.requireScope()], request('GET', { Authorization: 'Bearer other-ingest' })), 403);
+});
+
+test('an admin key has every scope', async () => {
+  const req = request('GET', { 'X-XRay-Api-Key': 'other-admin' });
+  assert.equal(await run([auth.authenticate, auth.requireScope('read'), auth.requireScope('ingest')], req), 'next');
+});
+
+test('/admin is limited to admin keys of the default project', async () => {
+  assert.equal(await run(adminChain(), request('GET', { 'X-XRay-Api-Key': 'default-admin' })), 'next');
+  assert.equal(await run(adminChain(), request('GET', { 'X-XRay-Api-Key': 'other-admin' })), 403);
+  assert.equal(await run(adminChain(), request('GET', { 'X-XRay-Api-Key': 'other-ingest' })), 403);
+});
+
+test('XRAY_AUTH=required rejects keyless requests', async () => {
+  const required = loadAuth('required');
+  try {
+    assert.equal(required.authRequired, true);
+    assert.equal(await run([required.authenticate], request('GET')), 401);
+    assert.equal(await run([required.authenticate], request('GET', { 'X-XRay-Api-Key': 'other-ingest' })), 'next');
+  } finally {
+    loadAuth();
+  }
+});
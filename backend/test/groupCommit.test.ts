@@ -0,0 +1,89 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+
+// Read when the module loads: batch up to 3 jobs, or whatever arrives within 20ms
+process.env.XRAY_GROUP_COMMIT_WINDOW_MS = '20';
+process.env.XRAY_GROUP_COMMIT_MAX_JOBS = '3';
+
+import { pool, db } from '../src/db/connection';
+import { withGroupCommit } from '../src/queue/groupCommit';
+import type { QueueJob } from '../src/queue/jobQueue';
+
+// Fake pg client: records statements; a failed statement aborts the transaction like Postgres does
+let statements: string[];
+let failCommit: boolean;
+
+beforeEach(() => {
+  statements = [];
+  failCommit = false;
+});
+
+const client = {
+  async query(text: string) {
+    statements.push(text);
+    if (text === 'COMMIT' && failCommit) throw new Error('could not serialize access');
+    return { rows: [], rowCount: 0 };
+  },
+  release() {},
+};
+(pool as any).connect = async () => client;
+(pool as any).query = async (text: string) => {
+  statements.push(`pool: ${text}`);
+  return { rows: [], rowCount: 0 };
+};
+
+function job(name: string, data: any): QueueJob {
+  return { id: String(data), name, data, attemptsMade: 0, failedReason: '', stacktrace: [], timestamp: Date.now() } as any;
+}
+
+// Writes one row per job; jobs with data 'bad' fail after writing
+const dispatch = withGroupCommit(async (queued) => {
+  await db.query(`INSERT ${queued.data}`);
+  if (queued.data === 'bad') throw new Error('bad job');
+});
+
+test('a failing job is rolled back and rejected alone while the others commit', async () => {
+  const results = await Promise.allSettled([job('create-step', 'a'), job('create-step', 'bad'), job('create-step', 'c')].map(dispatch));
+
+  assert.deepEqual(
+    results.map((r) => r.status),
+    ['fulfilled', 'rejected', 'fulfilled']
+  );
+  assert.equal((results[1] as PromiseRejectedResult).reason.message, 'bad job');
+  assert.deepEqual(statements, [
+    'BEGIN',
+    'SAVEPOINT job',
+    'INSERT a',
+    'RELEASE SAVEPOINT job',
+    'SAVEPOINT job',
+    'INSERT bad',
+    'ROLLBACK TO SAVEPOINT job',
+    'RELEASE SAVEPOINT job',
+    'SAVEPOINT job',
+    'INSERT c',
+    'RELEASE SAVEPOINT job',
+    'COMMIT',
+  ]);
+});
+
+test('a failed commit rejects every job of the batch', async () => {
+  failCommit = true;
+  const results = await Promise.allSettled([job('end-step', 1), job('end-step', 2)].map(dispatch));
+
+  assert.deepEqual(
+    results.map((r) => r.status),
+    ['rejected', 'rejected']
+  );
+  results.forEach((r) => assert.equal((r as PromiseRejectedResult).reason.message, 'could not serialize access'));
+  assert.deepEqual(statements.slice(-2), ['COMMIT', 'ROLLBACK']);
+});
+
+test('a batch of one is written directly, without a transaction', async () => {
+  await dispatch(job('create-run', 'only'));
+  assert.deepEqual(statements, ['pool: INSERT only']);
+});
+
+test('jobs are grouped by name', async () => {
+  await Promise.all([job('create-run', 'r'), job('end-step', 's')].map(dispatch));
+  assert.deepEqual(statements.sort(), ['pool: INSERT r', 'pool: INSERT s']);
+});
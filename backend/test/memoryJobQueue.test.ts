@@ -0,0 +1,142 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryJobQueue } from '../src/queue/memoryJobQueue';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Handler that fails its first `failures` calls, recording when each call happened
+function flaky(failures: number) {
+  const calls: number[] = [];
+  const handler = async () => {
+    calls.push(Date.now());
+    if (calls.length <= failures) throw new Error(`attempt ${calls.length} failed`);
+  };
+  return { calls, handler };
+}
+
+test('retries a failing job up to attempts with exponential backoff', async () => {
+  const queue = new MemoryJobQueue('test', { attempts: 3, backoff: { type: 'exponential', delay: 20 } });
+  const { calls, handler } = flaky(Infinity);
+  queue.process(handler);
+
+  const job = await queue.add('create-step', {});
+  await assert.rejects(queue.waitUntilFinished(job), /attempt 3 failed/);
+
+  assert.equal(calls.length, 3);
+  // 20ms, then 40ms (timers may fire a millisecond early)
+  assert.ok(calls[1] - calls[0] >= 19, `first retry after ${calls[1] - calls[0]}ms`);
+  assert.ok(calls[2] - calls[1] >= 39, `second retry after ${calls[2] - calls[1]}ms`);
+  assert.equal(job.attemptsMade, 3);
+  assert.equal(await job.getState(), 'failed');
+  assert.deepEqual(await queue.getJobCounts('completed', 'failed'), { completed: 0, failed: 1 });
+  await queue.close();
+});
+
+test('without attempts a job fails on its first error', async () => {
+  const queue = new MemoryJobQueue('test');
+  const { calls, handler } = flaky(1);
+  queue.process(handler);
+
+  const job = await queue.add('create-step', {});
+  await assert.rejects(queue.waitUntilFinished(job), /attempt 1 failed/);
+  assert.equal(calls.length, 1);
+  await queue.close();
+});
+
+test('waitUntilFinished resolves once the job completes, also after the fact', async () => {
+  const queue = new MemoryJobQueue('test', { attempts: 2 });
+  const { handler } = flaky(1);
+  queue.process(handler);
+
+  const job = await queue.add('create-step', {});
+  await queue.waitUntilFinished(job);
+  assert.equal(await job.getState(), 'completed');
+  assert.equal(job.attemptsMade, 1);
+  await queue.waitUntilFinished(job);
+  await queue.close();
+});
+
+test('waitUntilFinished times out when the job does not finish within ttl', async () => {
+  // No handler: the job stays waiting
+  const queue = new MemoryJobQueue('test');
+  const job = await queue.add('create-step', {});
+
+  await assert.rejects(queue.waitUntilFinished(job, 20), /timed out/);
+  assert.equal(await job.getState(), 'waiting');
+});
+
+test('retry with resetAttemptsMade gives a failed job its attempts back', async () => {
+  const queue = new MemoryJobQueue('test', { attempts: 2 });
+  // Fails both attempts, then once more after the retry, then succeeds
+  const { calls, handler } = flaky(3);
+  queue.process(handler);
+
+  const job = await queue.add('create-step', {});
+  await assert.rejects(queue.waitUntilFinished(job));
+  assert.equal(job.attemptsMade, 2);
+
+  await job.retry('failed', { resetAttemptsMade: true });
+  await queue.waitUntilFinished(job);
+
+  assert.equal(calls.length, 4);
+  assert.equal(job.attemptsMade, 1);
+  assert.deepEqual(await queue.getJobCounts('completed', 'failed'), { completed: 1, failed: 0 });
+  await queue.close();
+});
+
+test('retry only applies to failed jobs', async () => {
+  const queue = new MemoryJobQueue('test');
+  queue.process(async () => {});
+
+  const job = await queue.add('create-step', {});
+  await queue.waitUntilFinished(job);
+  await assert.rejects(job.retry('failed'), /not in the failed state/);
+  await queue.close();
+});
+
+test('removeOnComplete with a count keeps only the most recent jobs', async () => {
+  const queue = new MemoryJobQueue('test', { removeOnComplete: 2 });
+  queue.process(async () => {});
+
+  const jobs = [];
+  for (let i = 0; i < 4; i++) {
+    const job = await queue.add('create-step', { i });
+    await queue.waitUntilFinished(job);
+    jobs.push(job);
+  }
+
+  assert.deepEqual(await queue.getJobCounts('completed'), { completed: 2 });
+  assert.equal(await queue.getJob(jobs[0].id!), undefined);
+  assert.equal(await queue.getJob(jobs[1].id!), undefined);
+  assert.equal(await queue.getJob(jobs[3].id!), jobs[3]);
+  await queue.close();
+});
+
+test('removeOnFail true drops failed jobs at once', async () => {
+  const queue = new MemoryJobQueue('test', { removeOnFail: true });
+  queue.process(flaky(Infinity).handler);
+
+  const job = await queue.add('create-step', {});
+  await assert.rejects(queue.waitUntilFinished(job));
+
+  assert.deepEqual(await queue.getJobCounts('failed'), { failed: 0 });
+  assert.deepEqual(await queue.getFailed(), []);
+  assert.equal(await queue.getJob(job.id!), undefined);
+  await queue.close();
+});
+
+test('removeOnFail with an age drops failed jobs older than age seconds', async () => {
+  const queue = new MemoryJobQueue('test', { removeOnFail: { age: 0.05 } });
+  queue.process(flaky(Infinity).handler);
+
+  const old = await queue.add('create-step', { i: 0 });
+  await assert.rejects(queue.waitUntilFinished(old));
+  await sleep(80);
+  const recent = await queue.add('create-step', { i: 1 });
+  await assert.rejects(queue.waitUntilFinished(recent));
+
+  // Pruned when the next job failed
+  assert.deepEqual(await queue.getFailed(), [recent]);
+  assert.equal(await queue.getJob(old.id!), undefined);
+  await queue.close();
+});
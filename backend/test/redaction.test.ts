@@ -0,0 +1,18 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+
+// The policy is read from the environment when the module loads
+process.env.XRAY_REDACT_INPUT_PATTERNS = 'phone,card';
+const { redactRunInput } = require('../src/models/redaction') as typeof import('../src/models/redaction');
+
+test('phone preset masks phone numbers in run inputs', () => {
+  assert.deepEqual(redactRunInput({ query: 'call +1 415 555 0123', contact: ['(415) 555-0123'] }), {
+    query: 'call [REDACTED]',
+    contact: ['[REDACTED]'],
+  });
+});
+
+test('phone preset leaves ordinary numbers alone', () => {
+  const input = { score: 'score 0.85123456', at: '2024-01-15 10:30', price: '1299.99 (12345)', order: 'order 12345678' };
+  assert.deepEqual(redactRunInput(input), input);
+});
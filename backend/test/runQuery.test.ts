@@ -0,0 +1,80 @@
+import { test, beforeEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { pool } from '../src/db/connection';
+import { listRuns } from '../src/models/run';
+import { jsonPathFilters } from '../src/routes/validation';
+
+// Fake pool: records the last query instead of running it
+let lastQuery: { text: string; values: any[] };
+
+beforeEach(() => {
+  lastQuery = { text: '', values: [] };
+});
+
+(pool as any).query = async (text: string, values: any[]) => {
+  lastQuery = { text, values };
+  return { rows: [], rowCount: 0 };
+};
+
+test('collects exact and substring filters for the prefix', () => {
+  const filters = jsonPathFilters({ 'attr.region': 'eu', 'attr.model.name~': 'gpt', 'input.query': 'phone', status: 'failed' }, 'attr');
+
+  assert.deepEqual(filters, [
+    { path: ['region'], value: 'eu', match: 'equals' },
+    { path: ['model', 'name'], value: 'gpt', match: 'contains' },
+  ]);
+});
+
+test('keeps the substring wherever the ~ splits it', () => {
+  // `input.query~phone` arrives as a key with an empty value
+  assert.deepEqual(jsonPathFilters({ 'input.query~phone': '' }, 'input'), [
+    { path: ['query'], value: 'phone', match: 'contains' },
+  ]);
+  assert.deepEqual(jsonPathFilters({ 'input.query~ph': 'one' }, 'input'), [
+    { path: ['query'], value: 'phone', match: 'contains' },
+  ]);
+});
+
+test('repeated keys add one filter per value, ignoring nested objects', () => {
+  assert.deepEqual(jsonPathFilters({ 'attr.tier': ['gold', 'silver', { x: '1' } as any] }, 'attr'), [
+    { path: ['tier'], value: 'gold', match: 'equals' },
+    { path: ['tier'], value: 'silver', match: 'equals' },
+  ]);
+});
+
+test('skips keys with an empty path', () => {
+  assert.deepEqual(jsonPathFilters({ 'attr.': 'x', 'attr.~y': '', attr: 'z' }, 'attr'), []);
+});
+
+test('listRuns matches text values and the number or boolean they spell', async () => {
+  await listRuns({
+    project_id: 'project-a',
+    tags: ['canary', 'eu'],
+    attributes: [
+      { path: ['region'], value: 'eu', match: 'equals' },
+      { path: ['retries'], value: '3', match: 'equals' },
+      { path: ['cached'], value: 'false', match: 'equals' },
+    ],
+  });
+
+  assert.match(lastQuery.text, /AND project_id = \$1 AND tags @> \$2::text\[\]/);
+  assert.match(lastQuery.text, /AND attributes @> \$3::jsonb AND/);
+  assert.match(lastQuery.text, /AND \(attributes @> \$4::jsonb OR attributes @> \$5::jsonb\)/);
+  assert.match(lastQuery.text, /AND \(attributes @> \$6::jsonb OR attributes @> \$7::jsonb\)/);
+  assert.deepEqual(lastQuery.values, [
+    'project-a',
+    ['canary', 'eu'],
+    '{"region":"eu"}',
+    '{"retries":"3"}',
+    '{"retries":3}',
+    '{"cached":"false"}',
+    '{"cached":false}',
+  ]);
+});
+
+test('listRuns compiles substring filters to a case-insensitive path lookup', async () => {
+  await listRuns({ input: [{ path: ['query', 'text'], value: 'Phone', match: 'contains' }], limit: 5 });
+
+  assert.match(lastQuery.text, /AND strpos\(lower\(input #>> \$1::text\[\]\), lower\(\$2\)\) > 0 ORDER BY started_at DESC LIMIT \$3$/);
+  assert.deepEqual(lastQuery.values, [['query', 'text'], 'Phone', 5]);
+});
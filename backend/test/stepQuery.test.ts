@@ -0,0 +1,70 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compileStepQuery } from '../src/models/step';
+
+function compile(query: any) {
+  const compiled = compileStepQuery(query);
+  assert.ok(!('error' in compiled), `expected ${JSON.stringify(query)} to compile`);
+  return compiled;
+}
+
+function compileError(query: any): string {
+  const compiled = compileStepQuery(query);
+  assert.ok('error' in compiled, `expected ${JSON.stringify(query)} to be rejected`);
+  return compiled.error;
+}
+
+test('compiles filters to bind parameters', () => {
+  const { sql, values } = compile({
+    filter: { type: ['filter', 'dedupe'], rejection_rate: { gte: 0.9 }, started_at: { gt: '2024-01-15T00:00:00Z' } },
+    sort: [{ field: 'rejection_rate', order: 'desc' }],
+  });
+
+  assert.match(sql, /s\.type = ANY\(\$1::text\[\]\)/);
+  assert.match(sql, /\(ss\.rejected::float \/ NULLIF\(ss\.rejected \+ ss\.accepted, 0\)\) >= \$2::float/);
+  assert.match(sql, /s\.started_at > \$3::timestamp/);
+  assert.deepEqual(values, [['filter', 'dedupe'], 0.9, '2024-01-15T00:00:00Z', 51, 0]);
+});
+
+test('scopes to the project when given one', () => {
+  const compiled = compileStepQuery({ filter: { name: 'price_filter' } }, 'project-a');
+  assert.ok(!('error' in compiled));
+  assert.match(compiled.sql, /s\.project_id = \$1 AND s\.name = ANY\(\$2::text\[\]\)/);
+  assert.deepEqual(compiled.values.slice(0, 2), ['project-a', ['price_filter']]);
+});
+
+test('rejects inherited object names as filter keys', () => {
+  for (const key of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+    assert.equal(compileError({ filter: JSON.parse(`{"${key}": "x"}`) }), `Unknown filter: ${key}`);
+  }
+});
+
+test('rejects inherited object names as range operators', () => {
+  for (const op of ['constructor', 'toString', 'valueOf']) {
+    assert.equal(compileError({ filter: { input_count: { [op]: 1 } } }), `Unknown operator filter.input_count.${op}`);
+  }
+});
+
+test('rejects inherited object names as sort fields', () => {
+  for (const field of ['toString', 'constructor', 'valueOf']) {
+    assert.match(compileError({ sort: [{ field }] }), /^sort field must be one of: /);
+    assert.match(compileError({ group_by: ['pipeline'], sort: [{ field }] }), /^sort field must be one of: /);
+  }
+  assert.match(compileError({ sort: [{ field: ['name'] }] }), /^sort field must be one of: /);
+});
+
+test('rejects malformed values', () => {
+  assert.equal(compileError({ filter: { started_at: { gt: 'yesterday' } } }), 'filter.started_at.gt must be an ISO timestamp');
+  assert.equal(compileError({ filter: { input_count: { gt: '5' } } }), 'filter.input_count.gt must be a number');
+  assert.equal(compileError({ filter: { type: [] } }), 'filter.type must be a string or an array of strings');
+  assert.equal(compileError({ sort: [{ field: 'name', order: 'sideways' }] }), 'sort order must be asc or desc');
+  assert.equal(compileError({ limit: 501 }), 'limit must be an integer between 1 and 500');
+  assert.equal(compileError({ unknown: 1 }), 'Unknown query key: unknown');
+});
+
+test('never puts query text into the SQL', () => {
+  const { sql } = compile({
+    filter: { name: "x'; DROP TABLE steps; --", metadata: { "a'b": "c'd" } },
+  });
+  assert.doesNotMatch(sql, /DROP TABLE|a'b|c'd/);
+});
@@ -12,10 +12,18 @@ import fetch from 'node-fetch';
 
 // Initialize X-Ray SDK
 const apiUrl = process.env.XRAY_API_URL || 'http://localhost:3000';
+// Needed when the backend runs with XRAY_AUTH=required (ingest and read scopes)
+const apiKey = process.env.XRAY_API_KEY;
+const apiHeaders: Record<string, string> = apiKey ? { 'X-XRay-Api-Key': apiKey } : {};
 
 const xray = initXRay({
   apiUrl,
+  apiKey,
   timeout: 5000,
+  // Coalesce all events into batched POST /ingest requests (sent on flush)
+  batch: { maxSize: 500, intervalMs: 1000 },
+  // Optionally also export runs/steps as OpenTelemetry spans (e.g. http://localhost:4318/v1/traces)
+  otel: process.env.XRAY_OTEL_ENDPOINT ? { endpoint: process.env.XRAY_OTEL_ENDPOINT, serviceName: 'xray-demo' } : undefined,
 });
 
 // Simulated product database
@@ -70,46 +78,37 @@ async function runPipeline() {
     metadata: { filter_type: 'category_match' },
   });
 
-  const filteredCandidates = candidates.filter((p) => {
-    // BUG: The filter checks for "accessories" AND price >= 25
-    // This incorrectly accepts "desk_accessories" (Laptop Stand)
-    // while rejecting valid cheap phone cases
-    const categoryLower = p.category.toLowerCase();
-    
-    if (categoryLower.includes('accessories')) {
-      // BUG: Should check if it's specifically "phone_accessories"
-      // but instead just checks price threshold
-      return p.price >= 25;
-    }
-    
-    return false;
-  });
+  const filteredCandidates = filterStep.filter(
+    candidates,
+    (p) => {
+      // BUG: The filter checks for "accessories" AND price >= 25
+      // This incorrectly accepts "desk_accessories" (Laptop Stand)
+      // while rejecting valid cheap phone cases
+      const categoryLower = p.category.toLowerCase();
+
+      if (categoryLower.includes('accessories')) {
+        // BUG: Should check if it's specifically "phone_accessories"
+        // but instead just checks price threshold
+        return p.price >= 25;
+      }
 
-  // Record rejection breakdown
-  const rejectionBreakdown: Record<string, number> = {};
-  candidates.forEach((p) => {
-    if (!filteredCandidates.includes(p)) {
-      const reason = `rejected: ${p.category} ($${p.price})`;
-      rejectionBreakdown[reason] = (rejectionBreakdown[reason] || 0) + 1;
+      return false;
+    },
+    {
+      idOf: (p) => p.id,
+      reasonOf: (p, accepted) =>
+        accepted ? `Accepted: ${p.category} ($${p.price})` : `Rejected: ${p.category} ($${p.price})`,
+      reasonCodeOf: (p, accepted) =>
+        accepted
+          ? undefined
+          : {
+              code: p.category.includes('accessories') ? 'price_below_minimum' : 'category_mismatch',
+              params: { category: p.category, price: p.price, min_price: 25 },
+            },
+      attributesOf: (p) => ({ category: p.category, price: p.price }),
+      sample: 'all', // Record every candidate (small demo catalog)
     }
-  });
-
-  filterStep.recordSummary({
-    inputCount: candidates.length,
-    outputCount: filteredCandidates.length,
-    rejectionBreakdown,
-  });
-
-  // Record all candidates with detailed reasons
-  candidates.forEach((candidate) => {
-    const accepted = filteredCandidates.includes(candidate);
-    filterStep.recordCandidate(candidate.id, {
-      decision: accepted ? 'accepted' : 'rejected',
-      reason: accepted 
-        ? `Accepted: ${candidate.category} with price $${candidate.price}`
-        : `Rejected: ${candidate.category} with price $${candidate.price} (failed filter)`,
-    });
-  });
+  );
 
   filterStep.end();
   candidates = filteredCandidates;
@@ -126,30 +125,17 @@ async function runPipeline() {
   });
 
   // Score heavily favors rating (this amplifies the bug)
-  const rankedCandidates = candidates.map((p) => ({
-    product: p,
-    score: calculateRelevanceScore(p, userQuery.query),
-  })).sort((a, b) => b.score - a.score);
-
-  rankStep.recordSummary({
-    inputCount: candidates.length,
-    outputCount: rankedCandidates.length,
-  });
-
-  // Record all ranked candidates
-  rankedCandidates.forEach((item) => {
-    rankStep.recordCandidate(item.product.id, {
-      decision: 'accepted',
-      score: item.score,
-      reason: `Ranked with score ${item.score.toFixed(2)}`,
-    });
+  const rankedCandidates = rankStep.rank(candidates, (p) => calculateRelevanceScore(p, userQuery.query), {
+    idOf: (p) => p.id,
+    reasonOf: (entry) => `Ranked with score ${entry.score.toFixed(2)}`,
+    sample: 'all',
   });
 
   rankStep.end();
 
   console.log(`\nStep 3: Ranked ${rankedCandidates.length} candidates`);
-  rankedCandidates.forEach((item, i) => {
-    console.log(`  ${i + 1}. ${item.product.name} (score: ${item.score.toFixed(2)})`);
+  rankedCandidates.forEach((entry) => {
+    console.log(`  ${entry.rank}. ${entry.item.name} (score: ${entry.score.toFixed(2)})`);
   });
 
   // Step 4: Select top result
@@ -158,18 +144,8 @@ async function runPipeline() {
     metadata: { selection_strategy: 'top_1' },
   });
 
-  const selectedProduct = rankedCandidates[0].product;
-
-  selectStep.recordSummary({
-    inputCount: rankedCandidates.length,
-    outputCount: 1,
-  });
-
-  selectStep.recordCandidate(selectedProduct.id, {
-    decision: 'accepted',
-    score: rankedCandidates[0].score,
-    reason: `Selected as top result`,
-  });
+  const [selected] = selectStep.select(rankedCandidates, 1, { sample: 'all' });
+  const selectedProduct = selected.item;
 
   selectStep.end();
 
@@ -189,7 +165,7 @@ async function runPipeline() {
     console.log(`\n✅ CORRECT: This is a phone accessory as expected.`);
   }
 
-  // Flush any buffered requests
+  // Flush batched and buffered requests
   await xray.flush();
 
   // Wait for backend to process jobs (with polling)
@@ -220,7 +196,7 @@ runPipeline().catch((error) => {
 async function waitForRun(runId: string, maxAttempts: number = 10): Promise<void> {
   for (let i = 0; i < maxAttempts; i++) {
     try {
-      const runRes = await fetch(`${apiUrl}/runs/${runId}`);
+      const runRes = await fetch(`${apiUrl}/runs/${runId}`, { headers: apiHeaders });
       if (runRes.ok) {
         const runJson = await runRes.json();
         if (runJson.run_id) {
@@ -247,7 +223,7 @@ async function debugRun(runId: string): Promise<void> {
 
   // Step 1: Fetch run details
   console.log('📋 Step 1: Fetching run details...');
-  const runRes = await fetch(`${apiUrl}/runs/${runId}`);
+  const runRes = await fetch(`${apiUrl}/runs/${runId}`, { headers: apiHeaders });
   
   if (!runRes.ok) {
     if (runRes.status === 404) {
@@ -270,9 +246,15 @@ async function debugRun(runId: string): Promise<void> {
       'ms');
   }
 
+  console.log('   Step timeline:');
+  (runJson.steps || []).forEach((s: any) => {
+    const duration = s.duration_ms != null ? `${s.duration_ms.toFixed(1)} ms` : 'n/a';
+    console.log(`   - ${s.name} (${s.type}): ${duration}`);
+  });
+
   // Step 2: Find high-rejection steps
   console.log('\n🔎 Step 2: Querying for aggressive filter steps (>40% rejection)...');
-  const highRejRes = await fetch(`${apiUrl}/steps/query/high-rejection?threshold=0.4`);
+  const highRejRes = await fetch(`${apiUrl}/steps/query/high-rejection?threshold=0.4`, { headers: apiHeaders });
   const highRejSteps = await highRejRes.json();
   
   if (highRejSteps.length === 0) {
@@ -295,7 +277,7 @@ async function debugRun(runId: string): Promise<void> {
   // Step 3: Inspect the problematic step
   console.log(`\n🐛 Step 3: Inspecting problematic step: "${thisRunFilterStep.name}"...`);
   const stepId = thisRunFilterStep.step_id;
-  const stepRes = await fetch(`${apiUrl}/steps/${stepId}`);
+  const stepRes = await fetch(`${apiUrl}/steps/${stepId}`, { headers: apiHeaders });
   const stepJson = await stepRes.json();
 
   console.log('   Step Details:');
@@ -306,6 +288,10 @@ async function debugRun(runId: string): Promise<void> {
   Object.entries(stepJson.summary?.rejection_breakdown || {}).forEach(([reason, count]) => {
     console.log(`     * ${reason}: ${count}`);
   });
+  console.log('   - Rejections by reason code:');
+  Object.entries(stepJson.summary?.reason_code_breakdown || {}).forEach(([code, count]) => {
+    console.log(`     * ${code}: ${count}`);
+  });
 
   console.log('\n   Sample Candidates:');
   const samples = stepJson.candidates.slice(0, 6);
@@ -315,6 +301,28 @@ async function debugRun(runId: string): Promise<void> {
     console.log(`      Reason: ${c.reason}`);
   });
 
+  // Structured evidence: which desk accessories slipped through the category filter?
+  const deskRes = await fetch(`${apiUrl}/steps/${stepId}?attributes.category=desk_accessories`, { headers: apiHeaders });
+  const deskJson = await deskRes.json();
+  console.log('\n   Candidates with attributes.category=desk_accessories:');
+  deskJson.candidates.forEach((c: any) => {
+    console.log(`   - ${c.candidate_id}: ${c.decision} ($${c.attributes.price})`);
+  });
+
+  // Step 4: Follow a dropped phone case through the whole run
+  console.log('\n🧭 Step 4: Following "p2" (Samsung Galaxy Case) through the run...');
+  const journeyRes = await fetch(`${apiUrl}/runs/${runId}/candidates/p2/journey`, { headers: apiHeaders });
+  if (journeyRes.ok) {
+    const journeyJson = await journeyRes.json();
+    journeyJson.steps.forEach((s: any) => {
+      const marker = s.first_rejection ? '  ⬅ first rejected here' : '';
+      console.log(`   - ${s.step_name} (${s.step_type}): ${s.decision}${marker}`);
+      console.log(`      Reason: ${s.reason}`);
+    });
+  } else {
+    console.log('   Candidate p2 was not recorded in this run.');
+  }
+
   console.log(`\n${'='.repeat(70)}`);
   console.log('💡 ROOT CAUSE IDENTIFIED:');
   console.log('   The category filter is checking for "accessories" + price >= $25');
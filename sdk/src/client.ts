@@ -1,64 +1,519 @@
 /**
- * Fire-and-forget HTTP client for X-Ray SDK.
- * Never throws, always returns void.
+ * HTTP client for X-Ray SDK.
+ * Fire-and-forget by default; never throws.
+ * In acknowledged delivery mode, requests retry with backoff and wait for the backend
+ * to confirm persistence, so callers can await delivery of a run (see waitForRun).
  */
 
 import fetch from 'node-fetch';
+import { DiskSpool, SpoolConfig, SpooledEvent } from './spool';
+import { OtelConfig, OtelExporter } from './otel';
+import { RedactionConfig, Redactor } from './redaction';
+import { Transport, MemoryTransport } from './transport';
 
 export interface ClientConfig {
-  apiUrl: string;
+  apiUrl?: string; // required unless a non-HTTP transport is used
+  apiKey?: string; // project API key, sent as X-XRay-Api-Key (needed when the backend requires keys)
   timeout?: number; // milliseconds
-  bufferSize?: number; // in-memory buffer size (0 = disabled)
+  bufferSize?: number; // in-memory retry buffer size for failed requests (0 = disabled)
+  spool?: SpoolConfig; // opt-in durable on-disk spool for failed requests
+  spoolBackoff?: { initialMs?: number; maxMs?: number }; // replay backoff while backend is unreachable
+  batch?: BatchConfig; // opt-in client-side coalescing into POST /ingest
+  otel?: OtelConfig; // opt-in export of runs/steps as OpenTelemetry spans
+  redaction?: RedactionConfig; // PII scrubbing applied before any event leaves the process
+  delivery?: DeliveryMode; // default: 'fire-and-forget'
+  retry?: RetryConfig; // retry backoff for acknowledged delivery
+  transport?: 'http' | 'memory' | Transport; // where events go (default: 'http' to apiUrl)
+}
+
+/**
+ * 'acknowledged' sends every event through POST /ingest and waits for the backend to
+ * confirm it was persisted, retrying network errors, 429 and 5xx with exponential backoff.
+ */
+export type DeliveryMode = 'fire-and-forget' | 'acknowledged';
+
+export interface RetryConfig {
+  maxAttempts?: number; // total attempts per request (default: 5)
+  initialMs?: number; // first retry delay (default: 200)
+  maxMs?: number; // retry delay cap (default: 5000)
+}
+
+/**
+ * Event delivery counters (a candidate batch counts as one event).
+ * sent: accepted by the backend; failed: rejected by the backend (non-retryable 4xx);
+ * dropped: undeliverable and discarded because no buffer/spool could hold it.
+ */
+export interface DeliveryStats {
+  sent: number;
+  failed: number;
+  dropped: number;
+}
+
+type SendResult = 'ok' | 'retryable' | 'rejected';
+
+export interface BatchConfig {
+  maxSize?: number; // flush once this many events (candidates count individually) are pending
+  intervalMs?: number; // flush pending events at least this often
+}
+
+export type IngestEventType =
+  | 'run.create'
+  | 'run.end'
+  | 'step.create'
+  | 'step.summary'
+  | 'step.end'
+  | 'candidate.bulk'
+  | 'llm.call'
+  | 'metric.record';
+
+export interface IngestEvent {
+  type: IngestEventType;
+  data: any;
+}
+
+/**
+ * Per-resource route for an event (used when batching is disabled).
+ */
+function pathForEvent(event: IngestEvent): string {
+  switch (event.type) {
+    case 'run.create':
+      return '/runs';
+    case 'run.end':
+      return `/runs/${event.data.run_id}`;
+    case 'step.create':
+      return '/steps';
+    case 'step.summary':
+      return `/steps/${event.data.step_id}/summary`;
+    case 'step.end':
+      return `/steps/${event.data.step_id}/end`;
+    case 'candidate.bulk':
+      return `/steps/${event.data.step_id}/candidates/bulk`;
+    case 'llm.call':
+      return `/steps/${event.data.step_id}/llm-calls`;
+    case 'metric.record':
+      return '/metrics';
+  }
+}
+
+function eventSize(event: IngestEvent): number {
+  return event.type === 'candidate.bulk' ? event.data.candidates.length : 1;
+}
+
+// Number of events carried by a request body (POST /ingest bodies carry many)
+function eventCount(body: any): number {
+  return Array.isArray(body?.events) ? body.events.length : 1;
+}
+
+function runIdsOf(body: any): string[] {
+  const ids = Array.isArray(body?.events) ? body.events.map((e: IngestEvent) => e.data?.run_id) : [body?.run_id];
+  return Array.from(new Set<string>(ids.filter(Boolean)));
+}
+
+// Runs with a failed delivery remembered for waitForRun; beyond this the oldest are forgotten
+const MAX_FAILED_RUNS = 1000;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 export class XRayClient {
-  private config: Required<ClientConfig>;
-  private buffer: Array<{ url: string; body: any }> = [];
+  private config: Required<Omit<ClientConfig, 'apiKey' | 'spool' | 'spoolBackoff' | 'batch' | 'otel' | 'redaction' | 'delivery' | 'retry' | 'transport'>>;
+  private apiKey?: string;
+  /** Replaces HTTP delivery when set (e.g. MemoryTransport for tests) */
+  readonly transport?: Transport;
+  private buffer: SpooledEvent[] = [];
+  private inFlight = new Set<Promise<boolean>>();
+
+  private acknowledged: boolean;
+  private retry: Required<RetryConfig>;
+  private stats: DeliveryStats = { sent: 0, failed: 0, dropped: 0 };
+  // Acknowledged mode: deliveries still pending per run, and runs with a failed delivery (oldest first)
+  private runDeliveries = new Map<string, Set<Promise<boolean>>>();
+  private failedRuns = new Set<string>();
+
+  private batch?: Required<BatchConfig>;
+  private pending: IngestEvent[] = [];
+  private pendingSize = 0;
+  private batchTimer?: NodeJS.Timeout;
+
+  private spool?: DiskSpool;
+  private spoolPending = false;
+  private replayTimer?: NodeJS.Timeout;
+  private replaying?: Promise<void>;
+  private initialBackoffMs: number;
+  private maxBackoffMs: number;
+  private backoffMs: number;
+
+  private otel?: OtelExporter;
+  private redactor?: Redactor;
 
   constructor(config: ClientConfig) {
+    // A misconfiguration, not a delivery failure: without a URL every event would silently go nowhere
+    if ((config.transport === undefined || config.transport === 'http') && !config.apiUrl) {
+      throw new Error('X-Ray: apiUrl is required with the http transport');
+    }
+
+    this.acknowledged = config.delivery === 'acknowledged';
     this.config = {
-      apiUrl: config.apiUrl.replace(/\/$/, ''), // remove trailing slash
-      timeout: config.timeout ?? 5000,
+      apiUrl: (config.apiUrl || '').replace(/\/$/, ''), // remove trailing slash
+      // Acknowledged requests wait for the worker, so allow longer than the backend's wait
+      timeout: config.timeout ?? (this.acknowledged ? 15000 : 5000),
       bufferSize: config.bufferSize ?? 0,
     };
+    this.apiKey = config.apiKey;
+    this.retry = {
+      maxAttempts: config.retry?.maxAttempts ?? 5,
+      initialMs: config.retry?.initialMs ?? 200,
+      maxMs: config.retry?.maxMs ?? 5000,
+    };
+
+    this.initialBackoffMs = config.spoolBackoff?.initialMs ?? 1000;
+    this.maxBackoffMs = config.spoolBackoff?.maxMs ?? 60000;
+    this.backoffMs = this.initialBackoffMs;
+
+    if (config.batch) {
+      this.batch = {
+        maxSize: config.batch.maxSize ?? 500,
+        intervalMs: config.batch.intervalMs ?? 1000,
+      };
+    }
+
+    if (config.transport === 'memory') {
+      this.transport = new MemoryTransport();
+    } else if (config.transport && config.transport !== 'http') {
+      this.transport = config.transport;
+    }
+
+    if (config.redaction) {
+      this.redactor = new Redactor(config.redaction);
+    }
+
+    if (config.otel) {
+      this.otel = new OtelExporter(config.otel);
+    }
+
+    if (config.spool) {
+      this.spool = new DiskSpool(config.spool);
+
+      // Pick up events spooled by a previous process
+      this.spool
+        .hasPending()
+        .then((pending) => {
+          if (pending) {
+            this.spoolPending = true;
+            this.scheduleReplay(0);
+          }
+        })
+        .catch(() => {
+          // Silently fail - spool directory unusable
+        });
+    }
+  }
+
+  /**
+   * Emit a typed event.
+   * Redaction (if configured) runs first, so nothing unredacted reaches the network, spool or spans.
+   * With batching enabled, events are coalesced in memory and sent to POST /ingest
+   * by size or interval; otherwise each event is posted to its own route.
+   */
+  emit(event: IngestEvent): void {
+    if (this.redactor) {
+      const redacted = this.redactor.apply(event);
+      if (!redacted) return;
+      event = redacted;
+    }
+
+    this.otel?.handle(event);
+
+    if (this.transport) {
+      try {
+        this.transport.send(event);
+        this.stats.sent++;
+      } catch (error) {
+        this.stats.failed++;
+      }
+      return;
+    }
+
+    if (!this.batch) {
+      if (this.acknowledged) {
+        this.post('/ingest', { events: [event] });
+      } else {
+        this.post(pathForEvent(event), event.data);
+      }
+      return;
+    }
+
+    // Merge consecutive candidate batches for the same step into one event
+    const last = this.pending[this.pending.length - 1];
+    if (
+      event.type === 'candidate.bulk' &&
+      last?.type === 'candidate.bulk' &&
+      last.data.step_id === event.data.step_id
+    ) {
+      last.data = { ...last.data, candidates: [...last.data.candidates, ...event.data.candidates] };
+    } else {
+      this.pending.push(event);
+    }
+    this.pendingSize += eventSize(event);
+
+    if (this.pendingSize >= this.batch.maxSize) {
+      this.flushBatch();
+    } else if (!this.batchTimer) {
+      this.batchTimer = setTimeout(() => this.flushBatch(), this.batch.intervalMs);
+      this.batchTimer.unref();
+    }
   }
 
   /**
    * Fire-and-forget POST request.
    * Never throws, silently fails if backend is down.
+   * Failed requests go to the spool (if configured) or the in-memory buffer.
    */
   async post(path: string, body: any): Promise<void> {
-    const url = `${this.config.apiUrl}${path}`;
-    const payload = { url, body };
+    const delivery = this.deliver({ path, body }).catch(() => {
+      // Silently fail - pipeline continues normally
+      return false;
+    });
 
-    // If buffering is enabled and buffer is not full, add to buffer
-    if (this.config.bufferSize > 0 && this.buffer.length < this.config.bufferSize) {
-      this.buffer.push(payload);
+    this.inFlight.add(delivery);
+    delivery.finally(() => this.inFlight.delete(delivery));
+
+    if (this.acknowledged) {
+      for (const runId of runIdsOf(body)) this.trackRunDelivery(runId, delivery);
     }
+  }
 
-    // Attempt to send immediately
-    this.sendWithTimeout(url, body).catch(() => {
-      // Silently fail - pipeline continues normally
-    });
+  /**
+   * Wait until every event emitted so far for a run has been delivered.
+   *
+   * @returns true if the backend confirmed all of them as persisted, or a transport took them
+   *   (always false in HTTP fire-and-forget mode, which never confirms persistence)
+   */
+  async waitForRun(runId: string): Promise<boolean> {
+    // Transports take events synchronously, so there is nothing left to wait for
+    if (this.transport) return true;
+    if (!this.acknowledged) return false;
+
+    this.flushBatch();
+    const pending = this.runDeliveries.get(runId);
+    const results = pending ? await Promise.all(Array.from(pending)) : [];
+    const failed = this.failedRuns.delete(runId);
+    return !failed && results.every(Boolean);
+  }
+
+  /**
+   * Send a registry write immediately (not batched or spooled). Never throws.
+   *
+   * @returns true if the backend accepted it, or a transport is set (transports have no registry)
+   */
+  async register(path: string, body: any): Promise<boolean> {
+    if (this.transport) return true;
+    return (await this.sendWithTimeout(this.urlFor(path), body)) === 'ok';
+  }
+
+  getStats(): DeliveryStats {
+    return { ...this.stats };
   }
 
   /**
-   * Flush buffered requests (if buffering is enabled).
+   * Send pending batched events and spans, wait for in-flight requests,
+   * then retry buffered and spooled requests.
    */
   async flush(): Promise<void> {
-    if (this.config.bufferSize === 0 || this.buffer.length === 0) {
+    this.flushBatch();
+    await Promise.allSettled([...Array.from(this.inFlight), this.otel?.flush(), this.transport?.flush?.()]);
+
+    if (this.buffer.length > 0) {
+      const toFlush = [...this.buffer];
+      this.buffer = [];
+
+      for (const event of toFlush) {
+        const result = await this.send(event);
+        this.countResult(result, event);
+        if (result === 'retryable' && !this.bufferEvent(event)) {
+          this.stats.dropped += eventCount(event.body);
+        }
+      }
+    }
+
+    if (this.spool && this.spoolPending) {
+      await this.replay();
+    }
+  }
+
+  private flushBatch(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = undefined;
+    }
+    if (this.pending.length === 0) return;
+
+    const events = this.pending;
+    this.pending = [];
+    this.pendingSize = 0;
+
+    this.post('/ingest', { events });
+  }
+
+  /**
+   * @returns true if the backend accepted the event(s) on this attempt
+   *   (spooled or buffered events are delivered later and count as not acknowledged)
+   */
+  private async deliver(event: SpooledEvent): Promise<boolean> {
+    // Keep ordering: while older events are spooled, new ones queue behind them
+    if (this.spool && this.spoolPending) {
+      await this.spoolEvent(event);
+      return false;
+    }
+
+    const result = this.acknowledged ? await this.sendWithRetry(event) : await this.send(event);
+    this.countResult(result, event);
+    if (result !== 'retryable') {
+      return result === 'ok';
+    }
+
+    if (this.spool) {
+      await this.spoolEvent(event);
+    } else if (!this.bufferEvent(event)) {
+      this.stats.dropped += eventCount(event.body);
+    }
+    return false;
+  }
+
+  private async sendWithRetry(event: SpooledEvent): Promise<SendResult> {
+    let delay = this.retry.initialMs;
+
+    for (let attempt = 1; ; attempt++) {
+      const result = await this.send(event);
+      if (result !== 'retryable' || attempt >= this.retry.maxAttempts) return result;
+
+      await sleep(delay);
+      delay = Math.min(delay * 2, this.retry.maxMs);
+    }
+  }
+
+  private send(event: SpooledEvent): Promise<SendResult> {
+    return this.sendWithTimeout(this.urlFor(event.path), event.body);
+  }
+
+  private countResult(result: SendResult, event: SpooledEvent): void {
+    if (result === 'ok') this.stats.sent += eventCount(event.body);
+    if (result === 'rejected') this.stats.failed += eventCount(event.body);
+  }
+
+  private trackRunDelivery(runId: string, delivery: Promise<boolean>): void {
+    let tracked = this.runDeliveries.get(runId);
+    if (!tracked) {
+      tracked = new Set();
+      this.runDeliveries.set(runId, tracked);
+    }
+
+    const pending = tracked;
+    pending.add(delivery);
+    delivery.then((delivered) => {
+      pending.delete(delivery);
+      if (pending.size === 0 && this.runDeliveries.get(runId) === pending) {
+        this.runDeliveries.delete(runId);
+      }
+
+      // Runs that are never waited for must not accumulate: keep only the latest failures
+      if (!delivered) {
+        this.failedRuns.delete(runId);
+        this.failedRuns.add(runId);
+        if (this.failedRuns.size > MAX_FAILED_RUNS) {
+          this.failedRuns.delete(this.failedRuns.values().next().value as string);
+        }
+      }
+    });
+  }
+
+  private bufferEvent(event: SpooledEvent): boolean {
+    if (this.config.bufferSize > 0 && this.buffer.length < this.config.bufferSize) {
+      this.buffer.push(event);
+      return true;
+    }
+    return false;
+  }
+
+  private async spoolEvent(event: SpooledEvent): Promise<void> {
+    this.spoolPending = true;
+    await this.spool!.append(event);
+    this.scheduleReplay();
+  }
+
+  private scheduleReplay(delay: number = this.backoffMs): void {
+    if (this.replayTimer) return;
+
+    this.replayTimer = setTimeout(() => {
+      this.replayTimer = undefined;
+      this.replay().catch(() => {
+        // Silently fail - next replay is already scheduled
+      });
+    }, delay);
+
+    // Never keep the host process alive just to replay observability data
+    this.replayTimer.unref();
+  }
+
+  /**
+   * Replay spooled events once the backend reports healthy.
+   * Backs off exponentially while it is unreachable.
+   */
+  private replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replayOnce().finally(() => {
+        this.replaying = undefined;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayOnce(): Promise<void> {
+    const drained =
+      (await this.checkHealth()) &&
+      (await this.spool!.drain(async (event) => {
+        const result = await this.send(event);
+        this.countResult(result, event);
+        return result !== 'retryable';
+      }));
+
+    if (drained) {
+      this.backoffMs = this.initialBackoffMs;
+      this.spoolPending = await this.spool!.hasPending();
+      if (this.spoolPending) this.scheduleReplay(0);
       return;
     }
 
-    const toFlush = [...this.buffer];
-    this.buffer = [];
+    this.backoffMs = Math.min(this.backoffMs * 2, this.maxBackoffMs);
+    this.scheduleReplay();
+  }
+
+  private async checkHealth(): Promise<boolean> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
-    await Promise.allSettled(
-      toFlush.map(({ url, body }) => this.sendWithTimeout(url, body))
-    );
+    try {
+      const response = await fetch(this.urlFor('/health'), { signal: controller.signal });
+      return response.ok;
+    } catch (error) {
+      return false;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private urlFor(path: string): string {
+    return `${this.config.apiUrl}${path}`;
   }
 
-  private async sendWithTimeout(url: string, body: any): Promise<void> {
+  /**
+   * Send a request. Never throws.
+   *
+   * @returns 'retryable' for network errors, timeouts, 429 and 5xx;
+   *   'rejected' for other non-2xx responses
+   */
+  private async sendWithTimeout(url: string, body: any): Promise<SendResult> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
 
@@ -67,20 +522,22 @@ export class XRayClient {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...(this.apiKey ? { 'X-XRay-Api-Key': this.apiKey } : {}),
+          // Ask POST /ingest to respond only once the events are persisted
+          ...(this.acknowledged ? { 'X-XRay-Ack': 'persisted' } : {}),
         },
         body: JSON.stringify(body),
         signal: controller.signal,
       });
 
-      // Don't throw on non-2xx - just log if needed
-      if (!response.ok) {
-        // Could add optional logging here, but keeping it silent
-      }
+      if (response.ok) return 'ok';
+      // Other 4xx responses are not retryable - resending the same payload won't help
+      return response.status >= 500 || response.status === 429 ? 'retryable' : 'rejected';
     } catch (error) {
       // Silently fail - never throw
+      return 'retryable';
     } finally {
       clearTimeout(timeoutId);
     }
   }
 }
-
@@ -0,0 +1,31 @@
+/**
+ * Implicit run/step context backed by AsyncLocalStorage.
+ * The context follows async execution (awaits, Promise.all fan-out, timers),
+ * so deeply nested helpers can reach the current step without it being passed in.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Run } from './run';
+import type { Step } from './step';
+
+export interface XRayContext {
+  run?: Run;
+  step?: Step;
+}
+
+const storage = new AsyncLocalStorage<XRayContext>();
+
+/**
+ * Run fn with the given run/step layered over the current context.
+ */
+export function runInContext<R>(context: XRayContext, fn: () => R): R {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+export function currentRun(): Run | undefined {
+  return storage.getStore()?.run;
+}
+
+export function currentStep(): Step | undefined {
+  return storage.getStore()?.step;
+}
@@ -0,0 +1,62 @@
+/**
+ * Error serialization for run/step failure capture.
+ */
+
+export interface SerializedError {
+  error: string; // message
+  error_class: string;
+  error_stack?: string;
+  error_attributes?: Record<string, any>;
+}
+
+// Set on an error by Step.fail so Run.fail can report which step it came from
+const FAILED_STEP_ID = Symbol.for('xray.failedStepId');
+
+/**
+ * Convert anything thrown into the error fields sent to the backend.
+ * Non-Error values are stringified with class 'NonError'.
+ */
+export function serializeError(err: unknown, attributes?: Record<string, any>): SerializedError {
+  if (err instanceof Error) {
+    return {
+      error: err.message,
+      error_class: err.name || err.constructor?.name || 'Error',
+      error_stack: err.stack,
+      error_attributes: attributes,
+    };
+  }
+
+  return {
+    error: typeof err === 'string' ? err : safeStringify(err),
+    error_class: 'NonError',
+    error_attributes: attributes,
+  };
+}
+
+/**
+ * Remember the step an error was first recorded on (first step wins).
+ */
+export function tagFailedStep(err: unknown, stepId: string): void {
+  if (err && typeof err === 'object' && !(FAILED_STEP_ID in err)) {
+    try {
+      Object.defineProperty(err, FAILED_STEP_ID, { value: stepId, enumerable: false });
+    } catch (error) {
+      // Frozen objects can't be tagged - run will just not report the failed step
+    }
+  }
+}
+
+export function failedStepIdOf(err: unknown): string | undefined {
+  if (err && typeof err === 'object') {
+    return (err as any)[FAILED_STEP_ID];
+  }
+  return undefined;
+}
+
+function safeStringify(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch (error) {
+    return String(value);
+  }
+}
@@ -4,8 +4,11 @@
  * Lightweight, non-blocking SDK for instrumenting multi-step decision pipelines.
  */
 
-import { XRayClient, ClientConfig } from './client';
-import { Run } from './run';
+import { XRayClient, ClientConfig, DeliveryStats } from './client';
+import { Run, RunOptions } from './run';
+import { Step, StepOptions, StepTypeDefinition, CandidateRecord } from './step';
+import { currentRun, currentStep } from './context';
+import { RunContext, parseRunContext } from './propagation';
 
 export interface XRayConfig extends ClientConfig {}
 
@@ -14,6 +17,7 @@ export interface XRayConfig extends ClientConfig {}
  * 
  * @param config - Configuration including API URL
  * @returns X-Ray instance
+ * @throws if apiUrl is missing while events go over HTTP (the default transport)
  */
 export function initXRay(config: XRayConfig): XRay {
   const client = new XRayClient(config);
@@ -35,14 +39,90 @@ export class XRay {
    * 
    * @param pipeline - Name of the pipeline
    * @param input - Input data for this run
+   * @param options - Tags and attributes to find the run by
    * @returns Run instance
    */
-  startRun(pipeline: string, input: any): Run {
-    return new Run(pipeline, input, this.client);
+  startRun(pipeline: string, input: any, options?: RunOptions): Run {
+    return new Run(pipeline, input, this.client, undefined, options);
   }
 
   /**
-   * Flush any buffered requests (if buffering is enabled).
+   * Attach to a run started in another process.
+   * Accepts a serialized context (from run.context()) or an extracted RunContext;
+   * returns undefined if the context is missing or malformed.
+   * Steps created on the returned run land in the same run on the backend.
+   */
+  resumeRun(context: string | RunContext | undefined): Run | undefined {
+    const parsed = typeof context === 'string' ? parseRunContext(context) : context;
+    if (!parsed) return undefined;
+    return new Run(parsed.pipeline, undefined, this.client, parsed);
+  }
+
+  /**
+   * Start a run and execute fn with it as the current run.
+   * The run ends with success when fn resolves, or records the error and rethrows.
+   */
+  withRun<R>(pipeline: string, input: any, fn: (run: Run) => R | Promise<R>): Promise<R> {
+    return this.startRun(pipeline, input).wrap(fn);
+  }
+
+  /**
+   * Start a step in the current run and execute fn with it as the current step.
+   * Inside another step, the new step is created as its child.
+   * Without a current run, fn still executes but nothing is recorded.
+   */
+  async withStep<R>(name: string, options: StepOptions, fn: (step?: Step) => R | Promise<R>): Promise<R> {
+    const parent = currentStep();
+    const run = currentRun();
+
+    if (parent) return parent.child(name, options).wrap(fn);
+    if (run) return run.step(name, options).wrap(fn);
+    return fn(undefined);
+  }
+
+  /**
+   * The run started by the enclosing withRun/run.wrap, if any.
+   */
+  currentRun(): Run | undefined {
+    return currentRun();
+  }
+
+  /**
+   * The step started by the enclosing withStep/step.wrap, if any.
+   */
+  currentStep(): Step | undefined {
+    return currentStep();
+  }
+
+  /**
+   * Record a candidate on the current step.
+   * No-op outside a step context, so helpers can call it unconditionally.
+   */
+  recordCandidate(candidateId: string, record: Omit<CandidateRecord, 'candidateId'>): void {
+    currentStep()?.recordCandidate(candidateId, record);
+  }
+
+  /**
+   * Register a custom step type and its category (e.g. `{ name: 'dedupe', category: 'filter' }`)
+   * so the backend accepts steps of that type. Register before starting runs that use it.
+   * Needs an operator key (admin scope, default project); a type that steps already use cannot
+   * change category, and an existing description is kept.
+   *
+   * @returns true if the backend accepted the registration
+   */
+  registerStepType(stepType: StepTypeDefinition): Promise<boolean> {
+    return this.client.register('/step-types', stepType);
+  }
+
+  /**
+   * Delivery counters: events sent, rejected by the backend (failed) and discarded (dropped).
+   */
+  stats(): DeliveryStats {
+    return this.client.getStats();
+  }
+
+  /**
+   * Wait for in-flight requests and retry any buffered or spooled requests.
    */
   async flush(): Promise<void> {
     await this.client.flush();
@@ -50,6 +130,67 @@ export class XRay {
 }
 
 // Re-export types
-export { Run } from './run';
-export { Step, StepType, StepMetadata, StepSummary, CandidateRecord } from './step';
+export {
+  ClientConfig,
+  BatchConfig,
+  IngestEvent,
+  IngestEventType,
+  DeliveryMode,
+  RetryConfig,
+  DeliveryStats,
+} from './client';
+export { SpoolConfig } from './spool';
+export { OtelConfig } from './otel';
+export { RedactionConfig, RedactionPattern } from './redaction';
+export {
+  Transport,
+  MemoryTransport,
+  RecordedRun,
+  RecordedStep,
+  RecordedCandidate,
+  RecordedLLMCall,
+  RecordedMetric,
+} from './transport';
+export {
+  createTestXRay,
+  TestXRay,
+  expectStep,
+  StepExpectation,
+  snapshotRun,
+  serializeRun,
+  recordedRun,
+  XRayAssertionError,
+} from './testing';
+export { Run, RunOptions } from './run';
+export {
+  Step,
+  StepType,
+  StepCategory,
+  StepTypeDefinition,
+  StepStatus,
+  StepOptions,
+  StepMetadata,
+  StepSummary,
+  CandidateRecord,
+  LLMCall,
+  LLMMessage,
+  ReasonCode,
+  Ranked,
+  FilterOptions,
+  RankOptions,
+  SelectOptions,
+} from './step';
+export { SamplingPolicy, DEFAULT_SAMPLING } from './sampling';
+export { SerializedError, serializeError } from './errors';
+export {
+  RunContext,
+  XRAY_CONTEXT_HEADER,
+  XRAY_CONTEXT_MESSAGE_KEY,
+  serializeRunContext,
+  parseRunContext,
+  injectContext,
+  extractContext,
+  injectMessageContext,
+  extractMessageContext,
+} from './propagation';
 
@@ -0,0 +1,295 @@
+/**
+ * OpenTelemetry bridge: exports runs and steps as OTLP/HTTP JSON spans.
+ *
+ * Each run becomes a span and each step a child span (nested steps under their first parent).
+ * Summary counts become `xray.*` attributes and recorded candidates become span events,
+ * so the X-Ray backend's POST /v1/traces can rebuild runs/steps from the same spans.
+ * Trace and span ids are derived from run/step ids, so steps recorded by another
+ * process (see XRay.resumeRun) land in the same trace.
+ */
+
+import fetch from 'node-fetch';
+import type { IngestEvent } from './client';
+
+export interface OtelConfig {
+  endpoint: string; // OTLP/HTTP traces endpoint, e.g. http://localhost:4318/v1/traces
+  serviceName?: string;
+  headers?: Record<string, string>;
+  timeout?: number; // milliseconds
+  /** W3C traceparent of the active trace when a run starts; the run span links to it */
+  traceparent?: () => string | undefined;
+}
+
+interface OtlpAttribute {
+  key: string;
+  value: Record<string, any>;
+}
+
+interface OtlpSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano?: string;
+  attributes: OtlpAttribute[];
+  events: Array<{ name: string; timeUnixNano: string; attributes: OtlpAttribute[] }>;
+  links: Array<{ traceId: string; spanId: string }>;
+  status: { code: number; message?: string };
+}
+
+interface PendingSpan {
+  runId: string;
+  span: OtlpSpan;
+}
+
+// OTLP enum values
+const SPAN_KIND_INTERNAL = 1;
+const STATUS_UNSET = 0;
+const STATUS_OK = 1;
+const STATUS_ERROR = 2;
+
+const TRACEPARENT = /^[0-9a-f]{2}-([0-9a-f]{32})-([0-9a-f]{16})-[0-9a-f]{2}$/;
+
+function traceIdOf(runId: string): string {
+  return runId.replace(/-/g, '').toLowerCase();
+}
+
+function spanIdOf(id: string): string {
+  return id.replace(/-/g, '').toLowerCase().slice(16);
+}
+
+function toUnixNano(iso?: string): string {
+  const millis = iso ? Date.parse(iso) : Date.now();
+  return (BigInt(Number.isNaN(millis) ? Date.now() : millis) * BigInt(1000000)).toString();
+}
+
+function toAttributeValue(value: any): Record<string, any> {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (typeof value === 'number') return Number.isInteger(value) ? { intValue: value } : { doubleValue: value };
+  if (Array.isArray(value) && value.every((v) => typeof v === 'string')) {
+    return { arrayValue: { values: value.map((v) => ({ stringValue: v })) } };
+  }
+  return { stringValue: JSON.stringify(value) };
+}
+
+function toAttributes(values: Record<string, any>): OtlpAttribute[] {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => ({ key, value: toAttributeValue(value) }));
+}
+
+export class OtelExporter {
+  private config: OtelConfig;
+  private open = new Map<string, PendingSpan>(); // keyed by run/step id
+  private finished: OtlpSpan[] = [];
+  private inFlight = new Set<Promise<void>>();
+
+  constructor(config: OtelConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Update spans from an emitted event. Never throws.
+   */
+  handle(event: IngestEvent): void {
+    try {
+      this.apply(event);
+    } catch (error) {
+      // Silently fail - tracing must never break the pipeline
+    }
+  }
+
+  /**
+   * Export finished spans and wait for in-flight exports.
+   */
+  async flush(): Promise<void> {
+    this.export();
+    await Promise.allSettled(Array.from(this.inFlight));
+  }
+
+  private apply(event: IngestEvent): void {
+    const data = event.data;
+
+    switch (event.type) {
+      case 'run.create': {
+        const links = [];
+        const parent = TRACEPARENT.exec(this.config.traceparent?.() || '');
+        if (parent) links.push({ traceId: parent[1], spanId: parent[2] });
+
+        this.open.set(data.run_id, {
+          runId: data.run_id,
+          span: this.newSpan(data.run_id, data.run_id, data.pipeline, data.started_at, undefined, links, {
+            'xray.kind': 'run',
+            'xray.run_id': data.run_id,
+            'xray.pipeline': data.pipeline,
+            'xray.input': data.input,
+          }),
+        });
+        return;
+      }
+
+      case 'step.create': {
+        const parentId = data.parent_step_ids?.[0] || data.run_id;
+        this.open.set(data.step_id, {
+          runId: data.run_id,
+          span: this.newSpan(data.run_id, data.step_id, data.name, data.started_at, spanIdOf(parentId), [], {
+            'xray.kind': 'step',
+            'xray.run_id': data.run_id,
+            'xray.pipeline': data.pipeline,
+            'xray.step_id': data.step_id,
+            'xray.step.name': data.name,
+            'xray.step.type': data.type,
+            'xray.step.metadata': data.metadata,
+            'xray.step.parent_step_ids': data.parent_step_ids,
+          }),
+        });
+        return;
+      }
+
+      case 'step.summary': {
+        const pending = this.open.get(data.step_id);
+        if (!pending) return;
+        pending.span.attributes.push(
+          ...toAttributes({
+            'xray.input_count': data.input_count,
+            'xray.output_count': data.output_count,
+            'xray.rejection_breakdown': data.rejection_breakdown,
+            'xray.reason_code_breakdown': data.reason_code_breakdown,
+          })
+        );
+        return;
+      }
+
+      case 'candidate.bulk': {
+        const pending = this.open.get(data.step_id);
+        if (!pending) return;
+        const timeUnixNano = toUnixNano();
+        for (const c of data.candidates) {
+          pending.span.events.push({
+            name: 'xray.candidate',
+            timeUnixNano,
+            attributes: toAttributes({
+              'xray.candidate_id': c.candidate_id,
+              'xray.decision': c.decision,
+              'xray.score': c.score,
+              'xray.reason': c.reason,
+              'xray.reason_code': c.reason_code,
+              'xray.reason_params': c.reason_params,
+              'xray.attributes': c.attributes,
+            }),
+          });
+        }
+        return;
+      }
+
+      case 'step.end':
+        this.finish(data.step_id, data);
+        return;
+
+      case 'run.end':
+        // Error recorded by a resumed run: the run's span belongs to the process that started it
+        if (!data.ended_at) return;
+        this.finish(data.run_id, data);
+
+        // Steps still open when their run ends will never be exported
+        for (const [id, pending] of this.open) {
+          if (pending.runId === data.run_id) this.open.delete(id);
+        }
+        this.export();
+        return;
+    }
+  }
+
+  private newSpan(
+    runId: string,
+    id: string,
+    name: string,
+    startedAt: string | undefined,
+    parentSpanId: string | undefined,
+    links: Array<{ traceId: string; spanId: string }>,
+    attributes: Record<string, any>
+  ): OtlpSpan {
+    return {
+      traceId: traceIdOf(runId),
+      spanId: spanIdOf(id),
+      parentSpanId,
+      name,
+      kind: SPAN_KIND_INTERNAL,
+      startTimeUnixNano: toUnixNano(startedAt),
+      attributes: toAttributes(attributes),
+      events: [],
+      links,
+      status: { code: STATUS_UNSET },
+    };
+  }
+
+  private finish(id: string, data: any): void {
+    const pending = this.open.get(id);
+    if (!pending) return;
+    this.open.delete(id);
+
+    const span = pending.span;
+    span.endTimeUnixNano = toUnixNano(data.ended_at);
+
+    if (data.status === 'error') {
+      span.status = { code: STATUS_ERROR, message: data.error };
+      span.events.push({
+        name: 'exception',
+        timeUnixNano: span.endTimeUnixNano,
+        attributes: toAttributes({
+          'exception.type': data.error_class,
+          'exception.message': data.error,
+          'exception.stacktrace': data.error_stack,
+        }),
+      });
+    } else {
+      span.status = { code: STATUS_OK };
+    }
+
+    this.finished.push(span);
+  }
+
+  private export(): void {
+    if (this.finished.length === 0) return;
+
+    // Parents start before their children, so receivers see runs before their steps
+    const spans = this.finished.sort((a, b) =>
+      BigInt(a.startTimeUnixNano) < BigInt(b.startTimeUnixNano) ? -1 : 1
+    );
+    this.finished = [];
+
+    const body = {
+      resourceSpans: [
+        {
+          resource: { attributes: toAttributes({ 'service.name': this.config.serviceName || 'xray' }) },
+          scopeSpans: [{ scope: { name: '@xray/sdk' }, spans }],
+        },
+      ],
+    };
+
+    const delivery = this.send(body);
+    this.inFlight.add(delivery);
+    delivery.finally(() => this.inFlight.delete(delivery));
+  }
+
+  private async send(body: any): Promise<void> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout ?? 5000);
+
+    try {
+      await fetch(this.config.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      // Silently fail - spans are best-effort
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Cross-process run context propagation.
+ * A run context identifies a run (and optionally the step handing work off)
+ * so another process can attach its steps to the same run.
+ */
+
+export interface RunContext {
+  runId: string;
+  pipeline: string;
+  parentStepId?: string;
+}
+
+export const XRAY_CONTEXT_HEADER = 'x-xray-context';
+export const XRAY_CONTEXT_MESSAGE_KEY = 'xray_context';
+
+const VERSION = 'v1';
+
+/**
+ * Serialize a run context into a header-safe string:
+ * `v1:<runId>:<parentStepId or empty>:<url-encoded pipeline>`.
+ */
+export function serializeRunContext(context: RunContext): string {
+  return [VERSION, context.runId, context.parentStepId || '', encodeURIComponent(context.pipeline)].join(':');
+}
+
+/**
+ * Parse a serialized run context. Returns undefined for missing or malformed values.
+ */
+export function parseRunContext(value: unknown): RunContext | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const parts = value.trim().split(':');
+  if (parts.length !== 4 || parts[0] !== VERSION || !parts[1] || !parts[3]) return undefined;
+
+  try {
+    return {
+      runId: parts[1],
+      pipeline: decodeURIComponent(parts[3]),
+      parentStepId: parts[2] || undefined,
+    };
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Set the run context header on an outgoing request's headers object.
+ */
+export function injectContext<H extends Record<string, any>>(headers: H, context: string): H {
+  (headers as Record<string, any>)[XRAY_CONTEXT_HEADER] = context;
+  return headers;
+}
+
+/**
+ * Read the run context from incoming request headers.
+ * Accepts plain header objects (any key casing) and fetch-style Headers.
+ */
+export function extractContext(
+  headers: Record<string, any> | { get(name: string): string | null } | undefined
+): RunContext | undefined {
+  if (!headers) return undefined;
+
+  if (typeof (headers as any).get === 'function') {
+    return parseRunContext((headers as any).get(XRAY_CONTEXT_HEADER));
+  }
+
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === XRAY_CONTEXT_HEADER);
+  const value = key ? (headers as Record<string, any>)[key] : undefined;
+  return parseRunContext(Array.isArray(value) ? value[0] : value);
+}
+
+/**
+ * Attach the run context to a message payload (e.g. a queue job).
+ */
+export function injectMessageContext<M extends Record<string, any>>(
+  message: M,
+  context: string
+): M & { [XRAY_CONTEXT_MESSAGE_KEY]: string } {
+  return { ...message, [XRAY_CONTEXT_MESSAGE_KEY]: context };
+}
+
+/**
+ * Read the run context from a message payload.
+ */
+export function extractMessageContext(message: Record<string, any> | undefined): RunContext | undefined {
+  return parseRunContext(message?.[XRAY_CONTEXT_MESSAGE_KEY]);
+}
@@ -0,0 +1,122 @@
+/**
+ * PII redaction applied to every event before it leaves the process.
+ */
+
+import { createHash } from 'crypto';
+import type { IngestEvent } from './client';
+
+export type RedactionPattern = RegExp | 'email' | 'phone' | 'card';
+
+export interface RedactionConfig {
+  /** Paths to remove, rooted at the event data, e.g. 'input.user.email' or 'candidates.*.attributes.email' */
+  drop?: string[];
+  /** Paths whose values are replaced by a SHA-256 hash (still joinable, no longer readable) */
+  hash?: string[];
+  /** Patterns masked in every string value (input, metadata, reasons, attributes, errors) */
+  patterns?: RedactionPattern[];
+  mask?: string; // replacement for pattern matches (default: '[REDACTED]')
+  /** Custom hook run last; return null/undefined to drop the event entirely */
+  redact?: (event: IngestEvent) => IngestEvent | null | undefined;
+}
+
+const PRESETS: Record<Exclude<RedactionPattern, RegExp>, RegExp> = {
+  email: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  card: /\b(?:\d[ -]?){12,18}\d\b/g,
+  // +country numbers, or grouped (415) 555-0123 / 415-555-0123; never decimals, dates or bare digit runs
+  phone: /(?<![\w+])(?:\+(?=(?:[ ()-]*\d){7})\d{1,3}[ -]?(?:\(\d{1,4}\)[ -]?)?\d{1,4}(?:[ -]?\d{2,4}){1,4}|(?:\(\d{3}\) ?|\d{3}[ -])\d{3}[ -]\d{4})(?!\.?\d)/g,
+};
+
+// Ids, timestamps and enums are structural - never pattern-masked
+const STRUCTURAL_KEY = /(_id|_ids|_at)$|^(type|status|decision)$/;
+
+export class Redactor {
+  private drop: string[][];
+  private hash: string[][];
+  private patterns: RegExp[];
+  private mask: string;
+  private hook?: RedactionConfig['redact'];
+
+  constructor(config: RedactionConfig) {
+    this.drop = (config.drop || []).map((p) => p.split('.'));
+    this.hash = (config.hash || []).map((p) => p.split('.'));
+    // Cards before phones so card numbers are not half-masked as phone numbers
+    this.patterns = (config.patterns || [])
+      .map((p) => (typeof p === 'string' ? PRESETS[p] : new RegExp(p.source, p.flags.includes('g') ? p.flags : p.flags + 'g')))
+      .sort((a, b) => Number(b === PRESETS.card) - Number(a === PRESETS.card));
+    this.mask = config.mask ?? '[REDACTED]';
+    this.hook = config.redact;
+  }
+
+  /**
+   * Return a redacted copy of the event (the caller's objects are never mutated),
+   * or null if the custom hook dropped it. Never throws: if redaction fails
+   * the event is dropped rather than sent unredacted.
+   */
+  apply(event: IngestEvent): IngestEvent | null {
+    try {
+      let data = this.maskStrings(event.data);
+      for (const path of this.drop) data = transformPath(data, path, () => undefined);
+      for (const path of this.hash) data = transformPath(data, path, hashValue);
+
+      const redacted = { type: event.type, data };
+      return this.hook ? this.hook(redacted) || null : redacted;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private maskStrings(value: any, key?: string): any {
+    if (typeof value === 'string') {
+      if (key && STRUCTURAL_KEY.test(key)) return value;
+      return this.patterns.reduce((s, pattern) => s.replace(pattern, this.mask), value);
+    }
+    if (Array.isArray(value)) {
+      // Arrays inherit their key, so e.g. parent_step_ids stay untouched
+      return value.map((v) => this.maskStrings(v, key));
+    }
+    if (value && typeof value === 'object') {
+      const result: Record<string, any> = {};
+      for (const [k, v] of Object.entries(value)) result[k] = this.maskStrings(v, k);
+      return result;
+    }
+    return value;
+  }
+}
+
+function hashValue(value: any): string | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string' && value.startsWith('sha256:')) return value;
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return `sha256:${createHash('sha256').update(text).digest('hex')}`;
+}
+
+/**
+ * Copy-on-write update of the value(s) at a path. '*' matches every key/element.
+ * Returning undefined from fn removes the key.
+ */
+function transformPath(value: any, path: string[], fn: (v: any) => any): any {
+  if (path.length === 0) return fn(value);
+  if (!value || typeof value !== 'object') return value;
+
+  const [head, ...rest] = path;
+
+  if (Array.isArray(value)) {
+    if (head === '*') return value.map((v) => transformPath(v, rest, fn));
+    const index = Number(head);
+    if (!Number.isInteger(index) || index >= value.length) return value;
+    const copy = [...value];
+    copy[index] = transformPath(copy[index], rest, fn);
+    return copy;
+  }
+
+  const keys = head === '*' ? Object.keys(value) : head in value ? [head] : [];
+  if (keys.length === 0) return value;
+
+  const copy: Record<string, any> = { ...value };
+  for (const key of keys) {
+    const next = transformPath(copy[key], rest, fn);
+    if (next === undefined) delete copy[key];
+    else copy[key] = next;
+  }
+  return copy;
+}
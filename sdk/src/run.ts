@@ -4,7 +4,17 @@
 
 import { v4 as uuidv4 } from 'uuid';
 import { XRayClient } from './client';
-import { Step, StepType, StepMetadata } from './step';
+import { Step, StepOptions, toStepIds } from './step';
+import { SerializedError, serializeError, failedStepIdOf } from './errors';
+import { runInContext, currentStep } from './context';
+import { RunContext, serializeRunContext } from './propagation';
+
+export interface RunOptions {
+  /** Labels for finding runs later (GET /runs?tag=canary) */
+  tags?: string[];
+  /** Searchable key/values such as tenant, region or model_version (GET /runs?attr.region=eu) */
+  attributes?: Record<string, string | number | boolean>;
+}
 
 export class Run {
   private runId: string;
@@ -12,27 +22,42 @@ export class Run {
   private input: any;
   private client: XRayClient;
   private ended: boolean = false;
+  private resumedFrom?: RunContext;
 
-  constructor(pipeline: string, input: any, client: XRayClient) {
-    this.runId = uuidv4();
+  /**
+   * Pass `resume` to attach to a run started in another process
+   * instead of creating a new one.
+   */
+  constructor(pipeline: string, input: any, client: XRayClient, resume?: RunContext, options: RunOptions = {}) {
+    this.runId = resume?.runId || uuidv4();
     this.pipeline = pipeline;
     this.input = input;
     this.client = client;
+    this.resumedFrom = resume;
+
+    // The originating process owns a resumed run's lifecycle
+    if (resume) return;
 
     // Fire-and-forget: create run
-    this.client.post('/runs', {
-      run_id: this.runId,
-      pipeline: this.pipeline,
-      input: this.input,
-      started_at: new Date().toISOString(),
-      status: 'running',
+    this.client.emit({
+      type: 'run.create',
+      data: {
+        run_id: this.runId,
+        pipeline: this.pipeline,
+        input: this.input,
+        started_at: new Date().toISOString(),
+        status: 'running',
+        tags: options.tags,
+        attributes: options.attributes,
+      },
     });
   }
 
   /**
    * Create a new step in this run.
+   * Pass options.parents to place the step in a branching pipeline (e.g. a merge step).
    */
-  step(name: string, options: { type: StepType; metadata?: StepMetadata }): Step {
+  step(name: string, options: StepOptions): Step {
     const stepId = uuidv4();
     return new Step(
       stepId,
@@ -41,25 +66,143 @@ export class Run {
       options.type,
       options.metadata || {},
       this.client,
-      this.pipeline // Pass pipeline name for placeholder run creation
+      this.pipeline, // Pass pipeline name for placeholder run creation
+      toStepIds(options.parents)
     );
   }
 
+  /**
+   * Create a step that continues from the step that handed this run off
+   * (the parent step in the resumed context), plus any options.parents.
+   * For runs that were not resumed this is the same as step().
+   */
+  stepFromContext(name: string, options: StepOptions): Step {
+    const parentStepId = this.resumedFrom?.parentStepId;
+    return this.step(name, {
+      ...options,
+      parents: parentStepId ? [parentStepId, ...(options.parents || [])] : options.parents,
+    });
+  }
+
+  /**
+   * Serialize this run's context for another process (see XRay.resumeRun).
+   * The parent step defaults to the current step when it belongs to this run.
+   */
+  context(parentStep?: Step): string {
+    const current = currentStep();
+    const step = parentStep || (current?.getRunId() === this.runId ? current : undefined);
+
+    return serializeRunContext({
+      runId: this.runId,
+      pipeline: this.pipeline,
+      parentStepId: step?.getStepId(),
+    });
+  }
+
+  /**
+   * Record a numeric metric for the whole run (e.g. cache hit rate, total cost in cents).
+   * Aggregated over time by GET /metrics (avg/p50/p95/max).
+   */
+  recordMetric(name: string, value: number, unit?: string): void {
+    if (this.ended || !isFinite(value)) return;
+
+    this.client.emit({
+      type: 'metric.record',
+      data: {
+        metric_id: uuidv4(),
+        run_id: this.runId,
+        name,
+        value,
+        unit,
+        recorded_at: new Date().toISOString(),
+        pipeline: this.pipeline,
+      },
+    });
+  }
+
   /**
    * End the run.
+   * No-op for resumed runs; the process that started the run ends it.
+   *
+   * @returns resolves once this process's events for the run are delivered: true if the
+   *   backend confirmed all of them as persisted (acknowledged delivery), otherwise false.
+   *   Fire-and-forget mode resolves immediately with false; it never needs to be awaited.
+   */
+  end(status: 'success' | 'error' = 'success'): Promise<boolean> {
+    this.finish(status);
+    return this.client.waitForRun(this.runId);
+  }
+
+  /**
+   * End the run as failed, capturing the error class, message and stack.
+   * If the error was recorded by Step.fail, the failing step is linked too.
+   * A resumed run records the error but stays open for the process that started it.
+   * Resolves like end().
+   */
+  fail(err: unknown, attributes?: Record<string, any>): Promise<boolean> {
+    const error = { ...serializeError(err, attributes), failed_step_id: failedStepIdOf(err) };
+    if (this.resumedFrom) {
+      this.recordError(error);
+    } else {
+      this.finish('error', error);
+    }
+    return this.client.waitForRun(this.runId);
+  }
+
+  /**
+   * Run fn as the body of this run: ends with success when it resolves,
+   * or records the error and rethrows when it throws.
+   * While fn runs, this run is the current run (see XRay.currentRun).
+   * In acknowledged delivery mode, also waits for the run's events to be persisted.
    */
-  end(status: 'success' | 'error' = 'success'): void {
-    if (this.ended) return;
+  async wrap<R>(fn: (run: Run) => R | Promise<R>): Promise<R> {
+    let result: R;
+    try {
+      result = await runInContext({ run: this, step: undefined }, () => fn(this));
+    } catch (err) {
+      await this.fail(err);
+      throw err;
+    }
+
+    await this.end('success');
+    return result;
+  }
+
+  private finish(status: 'success' | 'error', error?: SerializedError & { failed_step_id?: string }): void {
+    if (this.ended || this.resumedFrom) return;
     this.ended = true;
 
-    this.client.post(`/runs/${this.runId}`, {
-      ended_at: new Date().toISOString(),
-      status: status,
+    this.client.emit({
+      type: 'run.end',
+      data: {
+        run_id: this.runId,
+        ended_at: new Date().toISOString(),
+        status: status,
+        ...error,
+      },
+    });
+  }
+
+  // A run.end without ended_at/status: the backend stores the error fields and leaves the run open
+  private recordError(error: SerializedError & { failed_step_id?: string }): void {
+    this.client.emit({
+      type: 'run.end',
+      data: {
+        run_id: this.runId,
+        ...error,
+      },
     });
   }
 
   getRunId(): string {
     return this.runId;
   }
+
+  /**
+   * The client this run emits through (used by the testing helpers to find its transport).
+   */
+  getClient(): XRayClient {
+    return this.client;
+  }
 }
 
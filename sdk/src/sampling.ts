@@ -0,0 +1,52 @@
+/**
+ * Candidate sampling policies for the instrumented step helpers.
+ */
+
+export type SamplingPolicy =
+  | 'all'
+  | 'none'
+  | {
+      accepted?: number; // max accepted candidates to record (default: all)
+      rejected?: number; // max rejected candidates to record (default: all)
+      strategy?: 'head' | 'random'; // 'head' keeps input order (best-first for ranked steps)
+    };
+
+export const DEFAULT_SAMPLING: SamplingPolicy = { accepted: 25, rejected: 25, strategy: 'head' };
+
+/**
+ * Pick which candidate records to send according to a sampling policy.
+ */
+export function sampleCandidates<C extends { decision: 'accepted' | 'rejected' }>(
+  records: C[],
+  policy: SamplingPolicy = DEFAULT_SAMPLING
+): C[] {
+  if (policy === 'all') return records;
+  if (policy === 'none') return [];
+
+  const strategy = policy.strategy || 'head';
+  const accepted = records.filter((r) => r.decision === 'accepted');
+  const rejected = records.filter((r) => r.decision === 'rejected');
+
+  return [
+    ...pick(accepted, policy.accepted ?? accepted.length, strategy),
+    ...pick(rejected, policy.rejected ?? rejected.length, strategy),
+  ];
+}
+
+function pick<C>(records: C[], n: number, strategy: 'head' | 'random'): C[] {
+  if (n <= 0) return [];
+  if (records.length <= n) return records;
+  return (strategy === 'random' ? shuffle(records) : records).slice(0, n);
+}
+
+/**
+ * Fisher-Yates shuffle (returns a new array).
+ */
+export function shuffle<C>(items: C[]): C[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
@@ -0,0 +1,179 @@
+/**
+ * Durable on-disk spool for events the backend could not accept.
+ * Events are appended to JSONL segment files and replayed oldest-first.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface SpoolConfig {
+  directory: string;
+  maxBytes?: number; // total disk budget across segments (oldest segments are evicted first)
+  segmentBytes?: number; // roll over to a new segment file after this size
+}
+
+export interface SpooledEvent {
+  path: string;
+  body: any;
+}
+
+const SEGMENT_PREFIX = 'xray-';
+const SEGMENT_SUFFIX = '.jsonl';
+
+export class DiskSpool {
+  private config: Required<SpoolConfig>;
+  private chain: Promise<unknown> = Promise.resolve();
+  private initialized = false;
+  private totalBytes = 0;
+  private currentSegment: string | null = null;
+  private currentSegmentBytes = 0;
+  private seq = 0;
+
+  constructor(config: SpoolConfig) {
+    this.config = {
+      directory: config.directory,
+      maxBytes: config.maxBytes ?? 50 * 1024 * 1024,
+      segmentBytes: config.segmentBytes ?? 1024 * 1024,
+    };
+  }
+
+  /**
+   * Append an event to the newest segment.
+   * Evicts the oldest segments when the disk budget would be exceeded.
+   */
+  append(event: SpooledEvent): Promise<void> {
+    return this.serialize(async () => {
+      await this.init();
+
+      const line = JSON.stringify(event) + '\n';
+      const lineBytes = Buffer.byteLength(line);
+      if (lineBytes > this.config.maxBytes) return; // can never fit
+
+      await this.evictUntilFits(lineBytes);
+
+      if (!this.currentSegment || this.currentSegmentBytes + lineBytes > this.config.segmentBytes) {
+        this.currentSegment = this.nextSegmentName();
+        this.currentSegmentBytes = 0;
+      }
+
+      await fs.promises.appendFile(this.segmentPath(this.currentSegment), line);
+      this.currentSegmentBytes += lineBytes;
+      this.totalBytes += lineBytes;
+    });
+  }
+
+  /**
+   * Whether any spooled events are waiting to be replayed.
+   */
+  hasPending(): Promise<boolean> {
+    return this.serialize(async () => {
+      await this.init();
+      return (await this.listSegments()).length > 0;
+    });
+  }
+
+  /**
+   * Replay spooled events in order using the provided sender.
+   * Stops at the first failed send and keeps the remaining events on disk.
+   *
+   * @returns true if the spool was fully drained
+   */
+  drain(send: (event: SpooledEvent) => Promise<boolean>): Promise<boolean> {
+    return this.serialize(async () => {
+      await this.init();
+
+      // New appends start a fresh segment so the one being replayed is not modified
+      this.currentSegment = null;
+      this.currentSegmentBytes = 0;
+
+      for (const segment of await this.listSegments()) {
+        const file = this.segmentPath(segment);
+        const lines = (await fs.promises.readFile(file, 'utf8')).split('\n').filter((l) => l.length > 0);
+
+        for (let i = 0; i < lines.length; i++) {
+          let event: SpooledEvent;
+          try {
+            event = JSON.parse(lines[i]);
+          } catch (error) {
+            continue; // Skip corrupted lines (e.g. partial write on crash)
+          }
+
+          if (!(await send(event))) {
+            const remaining = lines.slice(i).join('\n') + '\n';
+            await fs.promises.writeFile(file, remaining);
+            await this.recomputeTotalBytes();
+            return false;
+          }
+        }
+
+        await fs.promises.unlink(file).catch(() => {});
+        await this.recomputeTotalBytes();
+      }
+
+      return true;
+    });
+  }
+
+  private serialize<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.chain.then(task, task);
+    this.chain = result.catch(() => {});
+    return result;
+  }
+
+  private async init(): Promise<void> {
+    if (this.initialized) return;
+    await fs.promises.mkdir(this.config.directory, { recursive: true });
+    await this.recomputeTotalBytes();
+    this.initialized = true;
+  }
+
+  private async evictUntilFits(lineBytes: number): Promise<void> {
+    const segments = await this.listSegments();
+
+    while (this.totalBytes + lineBytes > this.config.maxBytes && segments.length > 0) {
+      const oldest = segments.shift()!;
+      const file = this.segmentPath(oldest);
+      const size = await this.fileSize(file);
+      await fs.promises.unlink(file).catch(() => {});
+      this.totalBytes -= size;
+
+      if (oldest === this.currentSegment) {
+        this.currentSegment = null;
+        this.currentSegmentBytes = 0;
+      }
+    }
+  }
+
+  private async listSegments(): Promise<string[]> {
+    const entries = await fs.promises.readdir(this.config.directory);
+    return entries
+      .filter((name) => name.startsWith(SEGMENT_PREFIX) && name.endsWith(SEGMENT_SUFFIX))
+      .sort(); // names are zero-padded, so lexical order is creation order
+  }
+
+  private async recomputeTotalBytes(): Promise<void> {
+    let total = 0;
+    for (const segment of await this.listSegments()) {
+      total += await this.fileSize(this.segmentPath(segment));
+    }
+    this.totalBytes = total;
+  }
+
+  private async fileSize(file: string): Promise<number> {
+    try {
+      return (await fs.promises.stat(file)).size;
+    } catch (error) {
+      return 0;
+    }
+  }
+
+  private nextSegmentName(): string {
+    const timestamp = Date.now().toString().padStart(15, '0');
+    const seq = (this.seq++).toString().padStart(6, '0');
+    return `${SEGMENT_PREFIX}${timestamp}-${seq}${SEGMENT_SUFFIX}`;
+  }
+
+  private segmentPath(segment: string): string {
+    return path.join(this.config.directory, segment);
+  }
+}
@@ -2,18 +2,43 @@
  * Step represents a single decision point in a pipeline.
  */
 
+import { v4 as uuidv4 } from 'uuid';
 import { XRayClient } from './client';
+import { SamplingPolicy, sampleCandidates, shuffle } from './sampling';
+import { SerializedError, serializeError, tagFailedStep } from './errors';
+import { runInContext } from './context';
 
-export type StepType = 'filter' | 'rank' | 'generate' | 'select';
+/** Semantic category of a step type; cross-pipeline queries (e.g. high-rejection) work by category */
+export type StepCategory = 'filter' | 'rank' | 'generate' | 'select';
+
+/** A built-in type, or a custom type registered with XRay.registerStepType */
+export type StepType = StepCategory | (string & {});
+
+export interface StepTypeDefinition {
+  name: string; // lowercase letters, digits and underscores
+  category: StepCategory;
+  description?: string;
+}
+
+export type StepStatus = 'success' | 'error';
 
 export interface StepMetadata {
   [key: string]: any;
 }
 
+export interface StepOptions {
+  type: StepType;
+  metadata?: StepMetadata;
+  /** Parent steps for branching/merging pipelines (Step instances or step ids) */
+  parents?: Array<Step | string>;
+}
+
 export interface StepSummary {
   inputCount: number;
   outputCount: number;
   rejectionBreakdown?: Record<string, number>;
+  /** Rejection counts keyed by stable reason code (aggregates across runs via GET /reasons) */
+  reasonCodeBreakdown?: Record<string, number>;
 }
 
 export interface CandidateRecord {
@@ -21,6 +46,69 @@ export interface CandidateRecord {
   decision: 'accepted' | 'rejected';
   score?: number;
   reason?: string;
+  /** Stable reason identifier (e.g. 'category_mismatch'); reason stays the human-readable rendering */
+  reasonCode?: string;
+  reasonParams?: Record<string, any>;
+  /** Structured evidence (e.g. category, price); queryable as attributes.<path> */
+  attributes?: Record<string, any>;
+}
+
+export interface LLMMessage {
+  role: string;
+  content: any;
+}
+
+/**
+ * One LLM request/response made while producing a step's output.
+ */
+export interface LLMCall {
+  model: string;
+  provider?: string; // e.g. 'openai', 'anthropic'
+  prompt?: string | LLMMessage[];
+  completion?: string; // raw model output, before any parsing
+  temperature?: number;
+  parameters?: Record<string, any>; // other request parameters (max_tokens, top_p, ...)
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  costUsd?: number;
+  latencyMs?: number;
+  startedAt?: Date | string;
+}
+
+/**
+ * A ranked item produced by Step.rank (rank is 1-based).
+ */
+export interface Ranked<T> {
+  id: string;
+  item: T;
+  score: number;
+  rank: number;
+}
+
+export type ReasonCode = string | { code: string; params?: Record<string, any> };
+
+export interface FilterOptions<T> {
+  idOf: (item: T) => string;
+  /** Human-readable reason; rejected reasons also become rejection breakdown keys */
+  reasonOf?: (item: T, accepted: boolean) => string;
+  /** Stable reason code; rejected codes become reason code breakdown keys */
+  reasonCodeOf?: (item: T, accepted: boolean) => ReasonCode | undefined;
+  attributesOf?: (item: T) => Record<string, any>;
+  sample?: SamplingPolicy;
+}
+
+export interface RankOptions<T> {
+  idOf: (item: T) => string;
+  reasonOf?: (entry: Ranked<T>) => string;
+  attributesOf?: (item: T) => Record<string, any>;
+  sample?: SamplingPolicy;
+}
+
+export interface SelectOptions<T> {
+  reasonOf?: (entry: Ranked<T>, selected: boolean) => string;
+  attributesOf?: (item: T) => Record<string, any>;
+  sample?: SamplingPolicy;
 }
 
 export class Step {
@@ -31,6 +119,8 @@ export class Step {
   private metadata: StepMetadata;
   private client: XRayClient;
   private pipeline?: string;
+  private parentStepIds: string[];
+  private startedAt: Date;
   private ended: boolean = false;
 
   constructor(
@@ -40,7 +130,8 @@ export class Step {
     type: StepType,
     metadata: StepMetadata,
     client: XRayClient,
-    pipeline?: string
+    pipeline?: string,
+    parentStepIds: string[] = []
   ) {
     this.stepId = stepId;
     this.runId = runId;
@@ -49,18 +140,42 @@ export class Step {
     this.metadata = metadata;
     this.client = client;
     this.pipeline = pipeline;
+    this.parentStepIds = parentStepIds;
+    this.startedAt = new Date();
 
     // Fire-and-forget: create step
-    this.client.post('/steps', {
-      step_id: this.stepId,
-      run_id: this.runId,
-      name: this.name,
-      type: this.type,
-      metadata: this.metadata,
-      pipeline: this.pipeline, // Include pipeline for placeholder run creation
+    this.client.emit({
+      type: 'step.create',
+      data: {
+        step_id: this.stepId,
+        run_id: this.runId,
+        name: this.name,
+        type: this.type,
+        metadata: this.metadata,
+        pipeline: this.pipeline, // Include pipeline for placeholder run creation
+        started_at: this.startedAt.toISOString(),
+        parent_step_ids: this.parentStepIds,
+      },
     });
   }
 
+  /**
+   * Create a child step nested under this step.
+   * Additional parents (e.g. for a merge step) can be passed via options.parents.
+   */
+  child(name: string, options: StepOptions): Step {
+    return new Step(
+      uuidv4(),
+      this.runId,
+      name,
+      options.type,
+      options.metadata || {},
+      this.client,
+      this.pipeline,
+      [this.stepId, ...toStepIds(options.parents)]
+    );
+  }
+
   /**
    * Record summary statistics for this step.
    * This is the minimal required instrumentation.
@@ -68,32 +183,80 @@ export class Step {
   recordSummary(summary: StepSummary): void {
     if (this.ended) return;
 
-    this.client.post(`/steps/${this.stepId}/summary`, {
-      step_id: this.stepId,
-      run_id: this.runId,
-      input_count: summary.inputCount,
-      output_count: summary.outputCount,
-      rejection_breakdown: summary.rejectionBreakdown || {},
+    this.client.emit({
+      type: 'step.summary',
+      data: {
+        step_id: this.stepId,
+        run_id: this.runId,
+        input_count: summary.inputCount,
+        output_count: summary.outputCount,
+        rejection_breakdown: summary.rejectionBreakdown || {},
+        reason_code_breakdown: summary.reasonCodeBreakdown,
+      },
     });
   }
 
   /**
-   * Record a candidate (optional, expensive).
-   * Use sparingly - for sampling or debugging specific runs.
+   * Record an LLM call made by this step (prompt, raw completion, model parameters, usage and cost),
+   * so "why did the model output this" sits next to the downstream decisions.
+   * Call once per request; retries or multi-call steps record several.
    */
-  recordCandidate(candidateId: string, record: Omit<CandidateRecord, 'candidateId'>): void {
+  recordLLMCall(call: LLMCall): void {
     if (this.ended) return;
 
-    this.client.post(`/steps/${this.stepId}/candidates`, {
-      candidate_id: candidateId,
-      step_id: this.stepId,
-      run_id: this.runId,
-      decision: record.decision,
-      score: record.score,
-      reason: record.reason,
+    this.client.emit({
+      type: 'llm.call',
+      data: {
+        call_id: uuidv4(),
+        step_id: this.stepId,
+        run_id: this.runId,
+        provider: call.provider,
+        model: call.model,
+        prompt: call.prompt,
+        completion: call.completion,
+        temperature: call.temperature,
+        parameters: call.parameters,
+        prompt_tokens: call.promptTokens,
+        completion_tokens: call.completionTokens,
+        total_tokens: call.totalTokens,
+        cost_usd: call.costUsd,
+        latency_ms: call.latencyMs,
+        started_at: call.startedAt instanceof Date ? call.startedAt.toISOString() : call.startedAt,
+      },
     });
   }
 
+  /**
+   * Record a numeric metric for this step (e.g. external call latency, similarity threshold, cost).
+   * Aggregated over time by GET /metrics (avg/p50/p95/max).
+   */
+  recordMetric(name: string, value: number, unit?: string): void {
+    if (this.ended || !isFinite(value)) return;
+
+    this.client.emit({
+      type: 'metric.record',
+      data: {
+        metric_id: uuidv4(),
+        run_id: this.runId,
+        step_id: this.stepId,
+        name,
+        value,
+        unit,
+        recorded_at: new Date().toISOString(),
+        pipeline: this.pipeline, // Include pipeline for placeholder run creation
+      },
+    });
+  }
+
+  /**
+   * Record a candidate (optional, expensive).
+   * Use sparingly - for sampling or debugging specific runs.
+   * With client batching enabled, consecutive calls are coalesced into one bulk event.
+   */
+  recordCandidate(candidateId: string, record: Omit<CandidateRecord, 'candidateId'>): void {
+    this.recordCandidates([{ ...record, candidateId }]);
+  }
+
   /**
    * Record multiple candidates in a single API call.
    * This reduces HTTP overhead for large candidate sets.
@@ -101,15 +264,21 @@ export class Step {
   recordCandidates(candidates: Array<Omit<CandidateRecord, 'candidateId'> & { candidateId: string }>): void {
     if (this.ended || candidates.length === 0) return;
 
-    this.client.post(`/steps/${this.stepId}/candidates/bulk`, {
-      step_id: this.stepId,
-      run_id: this.runId,
-      candidates: candidates.map((c) => ({
-        candidate_id: c.candidateId,
-        decision: c.decision,
-        score: c.score,
-        reason: c.reason,
-      })),
+    this.client.emit({
+      type: 'candidate.bulk',
+      data: {
+        step_id: this.stepId,
+        run_id: this.runId,
+        candidates: candidates.map((c) => ({
+          candidate_id: c.candidateId,
+          decision: c.decision,
+          score: c.score,
+          reason: c.reason,
+          reason_code: c.reasonCode,
+          reason_params: c.reasonParams,
+          attributes: c.attributes,
+        })),
+      },
     });
   }
 
@@ -118,7 +287,13 @@ export class Step {
    * Expects pre-scored candidates.
    */
   recordTopCandidates(
-    candidates: Array<{ id: string; score: number; reason?: string; decision?: 'accepted' | 'rejected' }>,
+    candidates: Array<{
+      id: string;
+      score: number;
+      reason?: string;
+      decision?: 'accepted' | 'rejected';
+      attributes?: Record<string, any>;
+    }>,
     n: number,
     defaultDecision: 'accepted' | 'rejected' = 'accepted'
   ): void {
@@ -132,6 +307,7 @@ export class Step {
         decision: c.decision || defaultDecision,
         score: c.score,
         reason: c.reason,
+        attributes: c.attributes,
       }));
 
     this.recordCandidates(top);
@@ -142,7 +318,13 @@ export class Step {
    * Expects pre-scored candidates.
    */
   recordBottomCandidates(
-    candidates: Array<{ id: string; score: number; reason?: string; decision?: 'accepted' | 'rejected' }>,
+    candidates: Array<{
+      id: string;
+      score: number;
+      reason?: string;
+      decision?: 'accepted' | 'rejected';
+      attributes?: Record<string, any>;
+    }>,
     n: number,
     defaultDecision: 'accepted' | 'rejected' = 'rejected'
   ): void {
@@ -156,6 +338,7 @@ export class Step {
         decision: c.decision || defaultDecision,
         score: c.score,
         reason: c.reason,
+        attributes: c.attributes,
       }));
 
     this.recordCandidates(bottom);
@@ -165,39 +348,213 @@ export class Step {
    * Helper: record a random sample of candidates.
    */
   recordRandomSample(
-    candidates: Array<{ id: string; score?: number; reason?: string; decision?: 'accepted' | 'rejected' }>,
+    candidates: Array<{
+      id: string;
+      score?: number;
+      reason?: string;
+      decision?: 'accepted' | 'rejected';
+      attributes?: Record<string, any>;
+    }>,
     n: number,
     defaultDecision: 'accepted' | 'rejected' = 'accepted'
   ): void {
     if (this.ended || candidates.length === 0 || n <= 0) return;
 
-    const shuffled = [...candidates];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
-    }
-
-    const sample = shuffled.slice(0, n).map((c) => ({
+    const sample = shuffle(candidates).slice(0, n).map((c) => ({
       candidateId: c.id,
       decision: c.decision || defaultDecision,
       score: c.score,
       reason: c.reason,
+      attributes: c.attributes,
     }));
 
     this.recordCandidates(sample);
   }
 
+  /**
+   * Instrumented filter: runs the predicate and records the summary,
+   * rejection breakdown and sampled candidates.
+   *
+   * @returns the items that passed the predicate
+   */
+  filter<T>(items: T[], predicate: (item: T) => boolean, options: FilterOptions<T>): T[] {
+    const output: T[] = [];
+    const rejectionBreakdown: Record<string, number> = {};
+    const reasonCodeBreakdown: Record<string, number> = {};
+    const records: Array<Omit<CandidateRecord, 'candidateId'> & { candidateId: string }> = [];
+
+    for (const item of items) {
+      const accepted = predicate(item);
+      const reason = options.reasonOf?.(item, accepted);
+      const code = normalizeReasonCode(options.reasonCodeOf?.(item, accepted));
+
+      if (accepted) {
+        output.push(item);
+      } else {
+        const key = reason || code?.code || 'rejected';
+        rejectionBreakdown[key] = (rejectionBreakdown[key] || 0) + 1;
+        if (code) {
+          reasonCodeBreakdown[code.code] = (reasonCodeBreakdown[code.code] || 0) + 1;
+        }
+      }
+
+      records.push({
+        candidateId: options.idOf(item),
+        decision: accepted ? 'accepted' : 'rejected',
+        reason,
+        reasonCode: code?.code,
+        reasonParams: code?.params,
+        attributes: options.attributesOf?.(item),
+      });
+    }
+
+    this.recordSummary({
+      inputCount: items.length,
+      outputCount: output.length,
+      rejectionBreakdown,
+      reasonCodeBreakdown,
+    });
+    this.recordCandidates(sampleCandidates(records, options.sample));
+
+    return output;
+  }
+
+  /**
+   * Instrumented rank: scores every item, sorts by score (highest first)
+   * and records the summary and sampled candidates.
+   *
+   * @returns ranked entries, best first
+   */
+  rank<T>(items: T[], scorer: (item: T) => number, options: RankOptions<T>): Ranked<T>[] {
+    const ranked: Ranked<T>[] = items
+      .map((item) => ({ id: options.idOf(item), item, score: scorer(item), rank: 0 }))
+      .sort((a, b) => b.score - a.score);
+    ranked.forEach((entry, i) => (entry.rank = i + 1));
+
+    this.recordSummary({ inputCount: items.length, outputCount: ranked.length });
+    this.recordCandidates(
+      sampleCandidates(
+        ranked.map((entry) => ({
+          candidateId: entry.id,
+          decision: 'accepted' as const,
+          score: entry.score,
+          reason: options.reasonOf?.(entry),
+          attributes: options.attributesOf?.(entry.item),
+        })),
+        options.sample
+      )
+    );
+
+    return ranked;
+  }
+
+  /**
+   * Instrumented select: keeps the first n ranked entries and records
+   * the rest as rejected ("not_selected").
+   *
+   * @returns the selected entries
+   */
+  select<T>(ranked: Ranked<T>[], n: number, options: SelectOptions<T> = {}): Ranked<T>[] {
+    const selected = ranked.slice(0, Math.max(n, 0));
+    const notSelected = ranked.length - selected.length;
+
+    this.recordSummary({
+      inputCount: ranked.length,
+      outputCount: selected.length,
+      rejectionBreakdown: notSelected > 0 ? { not_selected: notSelected } : {},
+      reasonCodeBreakdown: notSelected > 0 ? { not_selected: notSelected } : {},
+    });
+    this.recordCandidates(
+      sampleCandidates(
+        ranked.map((entry, i) => {
+          const isSelected = i < selected.length;
+          return {
+            candidateId: entry.id,
+            decision: isSelected ? ('accepted' as const) : ('rejected' as const),
+            score: entry.score,
+            reason:
+              options.reasonOf?.(entry, isSelected) ??
+              (isSelected ? `Selected (rank ${entry.rank})` : `Not selected (rank ${entry.rank})`),
+            reasonCode: isSelected ? undefined : 'not_selected',
+            reasonParams: isSelected ? undefined : { rank: entry.rank },
+            attributes: options.attributesOf?.(entry.item),
+          };
+        }),
+        options.sample
+      )
+    );
+
+    return selected;
+  }
+
   /**
    * Mark step as ended.
+   * Sends the end timestamp so the backend can compute the step duration.
+   */
+  end(status: StepStatus = 'success', error?: string): void {
+    this.finish(status, error === undefined ? undefined : { error, error_class: 'Error' });
+  }
+
+  /**
+   * End the step as failed, capturing the error class, message and stack.
+   * The error is tagged with this step so Run.fail can report where it happened.
    */
-  end(): void {
+  fail(err: unknown, attributes?: Record<string, any>): void {
+    tagFailedStep(err, this.stepId);
+    this.finish('error', serializeError(err, attributes));
+  }
+
+  /**
+   * Run fn inside this step: ends with success when it resolves,
+   * or records the error and rethrows when it throws.
+   * While fn runs, this step is the current step (see XRay.currentStep).
+   */
+  async wrap<R>(fn: (step: Step) => R | Promise<R>): Promise<R> {
+    try {
+      const result = await runInContext({ step: this }, () => fn(this));
+      this.end('success');
+      return result;
+    } catch (err) {
+      this.fail(err);
+      throw err;
+    }
+  }
+
+  private finish(status: StepStatus, error?: SerializedError): void {
     if (this.ended) return;
     this.ended = true;
-    // No explicit API call needed - step is implicitly ended when next step starts or run ends
+
+    this.client.emit({
+      type: 'step.end',
+      data: {
+        step_id: this.stepId,
+        run_id: this.runId,
+        ended_at: new Date().toISOString(),
+        status,
+        ...error,
+      },
+    });
   }
 
   getStepId(): string {
     return this.stepId;
   }
+
+  getRunId(): string {
+    return this.runId;
+  }
 }
 
+/**
+ * Normalize a list of parent steps (instances or ids) to unique step ids.
+ */
+export function toStepIds(parents?: Array<Step | string>): string[] {
+  if (!parents) return [];
+  const ids = parents.map((p) => (typeof p === 'string' ? p : p.getStepId()));
+  return Array.from(new Set(ids));
+}
+
+function normalizeReasonCode(code?: ReasonCode): { code: string; params?: Record<string, any> } | undefined {
+  if (!code) return undefined;
+  return typeof code === 'string' ? { code } : code;
+}
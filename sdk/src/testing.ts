@@ -0,0 +1,196 @@
+/**
+ * Test helpers: an in-memory X-Ray instance and assertions over recorded runs.
+ * Assertions throw XRayAssertionError, so they work with any test runner.
+ */
+
+import { XRay, XRayConfig } from './index';
+import { XRayClient } from './client';
+import { Run } from './run';
+import { MemoryTransport, RecordedRun, RecordedStep, RecordedCandidate } from './transport';
+
+export class XRayAssertionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XRayAssertionError';
+  }
+}
+
+/**
+ * An XRay instance recording into memory, with the recorder exposed for inspection.
+ */
+export class TestXRay extends XRay {
+  readonly recorder: MemoryTransport;
+
+  constructor(client: XRayClient, recorder: MemoryTransport) {
+    super(client);
+    this.recorder = recorder;
+  }
+}
+
+/**
+ * Create an XRay instance that records into memory instead of calling a backend.
+ * Other options (e.g. redaction) apply as usual.
+ */
+export function createTestXRay(config: Omit<XRayConfig, 'apiUrl' | 'transport'> = {}): TestXRay {
+  const recorder = new MemoryTransport();
+  return new TestXRay(new XRayClient({ ...config, transport: recorder }), recorder);
+}
+
+/**
+ * Find the recorded data for a run created by an in-memory XRay instance.
+ */
+export function recordedRun(run: Run | RecordedRun): RecordedRun {
+  if (!(run instanceof Run)) return run;
+
+  const transport = run.getClient().transport;
+  if (!(transport instanceof MemoryTransport)) {
+    throw new XRayAssertionError('Run was not recorded in memory; create it with createTestXRay() or transport: "memory"');
+  }
+
+  const recorded = transport.getRun(run.getRunId());
+  if (!recorded) {
+    throw new XRayAssertionError(`Run ${run.getRunId()} has no recorded events`);
+  }
+  return recorded;
+}
+
+export class StepExpectation {
+  readonly step: RecordedStep;
+
+  constructor(step: RecordedStep) {
+    this.step = step;
+  }
+
+  /**
+   * Assert the candidate was rejected, optionally with a given reason code or reason text.
+   */
+  toHaveRejected(candidateId: string, reason?: string | { reasonCode?: string; reason?: string }): this {
+    return this.expectDecision(candidateId, 'rejected', reason);
+  }
+
+  /**
+   * Assert the candidate was accepted, optionally with a given reason code or reason text.
+   */
+  toHaveAccepted(candidateId: string, reason?: string | { reasonCode?: string; reason?: string }): this {
+    return this.expectDecision(candidateId, 'accepted', reason);
+  }
+
+  toHaveSummary(expected: { inputCount?: number; outputCount?: number }): this {
+    const summary = this.step.summary;
+    if (!summary) {
+      throw new XRayAssertionError(`Step "${this.step.name}" recorded no summary`);
+    }
+    for (const key of ['inputCount', 'outputCount'] as const) {
+      if (expected[key] !== undefined && summary[key] !== expected[key]) {
+        throw new XRayAssertionError(
+          `Expected step "${this.step.name}" ${key} to be ${expected[key]}, but it was ${summary[key]}`
+        );
+      }
+    }
+    return this;
+  }
+
+  toHaveStatus(status: 'success' | 'error'): this {
+    if (this.step.status !== status) {
+      throw new XRayAssertionError(
+        `Expected step "${this.step.name}" to end with ${status}, but it ${this.step.status ? `ended with ${this.step.status}` : 'never ended'}`
+      );
+    }
+    return this;
+  }
+
+  /**
+   * A reason string matches either the reason code or the reason text.
+   */
+  private expectDecision(
+    candidateId: string,
+    decision: 'accepted' | 'rejected',
+    reason?: string | { reasonCode?: string; reason?: string }
+  ): this {
+    const candidate = this.step.candidates.find((c) => c.candidateId === candidateId);
+    if (!candidate) {
+      throw new XRayAssertionError(
+        `Expected step "${this.step.name}" to have ${decision} "${candidateId}", but it was not recorded ` +
+          `(recorded: ${this.step.candidates.map((c) => c.candidateId).join(', ') || 'none'})`
+      );
+    }
+    if (candidate.decision !== decision) {
+      throw new XRayAssertionError(
+        `Expected step "${this.step.name}" to have ${decision} "${candidateId}", but it was ${candidate.decision}` +
+          describeReason(candidate)
+      );
+    }
+
+    const matches =
+      reason === undefined ||
+      (typeof reason === 'string'
+        ? candidate.reasonCode === reason || candidate.reason === reason
+        : (reason.reasonCode === undefined || candidate.reasonCode === reason.reasonCode) &&
+          (reason.reason === undefined || candidate.reason === reason.reason));
+    if (!matches) {
+      throw new XRayAssertionError(
+        `Expected step "${this.step.name}" to have ${decision} "${candidateId}" for ${JSON.stringify(reason)}, ` +
+          `but it was${describeReason(candidate) || ' recorded without a reason'}`
+      );
+    }
+    return this;
+  }
+}
+
+function describeReason(candidate: RecordedCandidate): string {
+  const parts = [candidate.reasonCode && `code ${candidate.reasonCode}`, candidate.reason && `"${candidate.reason}"`];
+  const described = parts.filter(Boolean).join(', ');
+  return described ? ` (${described})` : '';
+}
+
+/**
+ * Start assertions on the step with the given name in a recorded run.
+ */
+export function expectStep(run: Run | RecordedRun, stepName: string): StepExpectation {
+  const recorded = recordedRun(run);
+  const step = recorded.steps.find((s) => s.name === stepName);
+  if (!step) {
+    throw new XRayAssertionError(
+      `Expected run to have a step "${stepName}" (recorded steps: ${recorded.steps.map((s) => s.name).join(', ') || 'none'})`
+    );
+  }
+  return new StepExpectation(step);
+}
+
+/**
+ * Deterministic, JSON-serializable view of a recorded run for snapshot tests.
+ * Ids, timestamps, durations and metrics are omitted; parent steps are referenced by name.
+ */
+export function snapshotRun(run: Run | RecordedRun) {
+  const recorded = recordedRun(run);
+  const nameOf = new Map(recorded.steps.map((s) => [s.stepId, s.name]));
+
+  return {
+    pipeline: recorded.pipeline,
+    input: recorded.input,
+    tags: recorded.tags,
+    attributes: recorded.attributes,
+    status: recorded.status,
+    error: recorded.error,
+    errorClass: recorded.errorClass,
+    failedStep: recorded.failedStepId ? nameOf.get(recorded.failedStepId) : undefined,
+    steps: recorded.steps.map((s) => ({
+      name: s.name,
+      type: s.type,
+      parents: s.parentStepIds.map((id) => nameOf.get(id) || '<external>'),
+      metadata: s.metadata,
+      status: s.status,
+      error: s.error,
+      summary: s.summary,
+      llmCalls: s.llmCalls.map(({ callId, latencyMs, ...call }) => call),
+      candidates: s.candidates,
+    })),
+  };
+}
+
+/**
+ * snapshotRun rendered as stable, pretty-printed JSON (undefined fields dropped).
+ */
+export function serializeRun(run: Run | RecordedRun): string {
+  return JSON.stringify(snapshotRun(run), null, 2);
+}
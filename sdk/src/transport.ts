@@ -0,0 +1,243 @@
+/**
+ * Pluggable event transports.
+ * By default XRayClient delivers events over HTTP; a transport replaces that delivery
+ * (redaction and span export still run first).
+ */
+
+import type { IngestEvent } from './client';
+
+export interface Transport {
+  /** Receive one event. Must not throw. */
+  send(event: IngestEvent): void;
+  flush?(): Promise<void>;
+}
+
+export interface RecordedCandidate {
+  candidateId: string;
+  decision: 'accepted' | 'rejected';
+  score?: number;
+  reason?: string;
+  reasonCode?: string;
+  reasonParams?: Record<string, any>;
+  attributes?: Record<string, any>;
+}
+
+export interface RecordedLLMCall {
+  callId: string;
+  provider?: string;
+  model: string;
+  prompt?: string | Array<{ role: string; content: any }>;
+  completion?: string;
+  temperature?: number;
+  parameters?: Record<string, any>;
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  costUsd?: number;
+  latencyMs?: number;
+}
+
+export interface RecordedMetric {
+  metricId: string;
+  name: string;
+  value: number;
+  unit?: string;
+}
+
+export interface RecordedStep {
+  stepId: string;
+  runId: string;
+  name: string;
+  type: string;
+  metadata: Record<string, any>;
+  parentStepIds: string[];
+  startedAt?: string;
+  endedAt?: string;
+  status?: 'success' | 'error';
+  error?: string;
+  errorClass?: string;
+  summary?: {
+    inputCount?: number;
+    outputCount?: number;
+    rejectionBreakdown?: Record<string, number>;
+    reasonCodeBreakdown?: Record<string, number>;
+  };
+  llmCalls: RecordedLLMCall[];
+  metrics: RecordedMetric[];
+  candidates: RecordedCandidate[];
+}
+
+export interface RecordedRun {
+  runId: string;
+  pipeline: string;
+  input: any;
+  tags?: string[];
+  attributes?: Record<string, any>;
+  startedAt?: string;
+  endedAt?: string;
+  status: 'running' | 'success' | 'error';
+  error?: string;
+  errorClass?: string;
+  failedStepId?: string;
+  metrics: RecordedMetric[]; // run-level metrics; step metrics live on their step
+  steps: RecordedStep[]; // in creation order
+}
+
+/**
+ * Captures events in memory and folds them into inspectable runs/steps/candidates.
+ * Intended for unit tests (see createTestXRay); nothing leaves the process.
+ */
+export class MemoryTransport implements Transport {
+  readonly events: IngestEvent[] = [];
+  private runs = new Map<string, RecordedRun>();
+  private steps = new Map<string, RecordedStep>();
+
+  send(event: IngestEvent): void {
+    this.events.push(event);
+    this.apply(event);
+  }
+
+  getRuns(): RecordedRun[] {
+    return Array.from(this.runs.values());
+  }
+
+  getRun(runId: string): RecordedRun | undefined {
+    return this.runs.get(runId);
+  }
+
+  getStep(stepId: string): RecordedStep | undefined {
+    return this.steps.get(stepId);
+  }
+
+  clear(): void {
+    this.events.length = 0;
+    this.runs.clear();
+    this.steps.clear();
+  }
+
+  private apply(event: IngestEvent): void {
+    const data = event.data;
+
+    switch (event.type) {
+      case 'run.create': {
+        const run = this.ensureRun(data.run_id);
+        run.pipeline = data.pipeline;
+        run.input = data.input;
+        run.tags = data.tags;
+        run.attributes = data.attributes;
+        run.startedAt = data.started_at;
+        return;
+      }
+
+      case 'run.end': {
+        const run = this.ensureRun(data.run_id);
+        // Without ended_at only the error is recorded (a resumed run failed), the run stays open
+        if (data.ended_at) {
+          run.endedAt = data.ended_at;
+          run.status = data.status;
+        }
+        run.error = data.error;
+        run.errorClass = data.error_class;
+        run.failedStepId = data.failed_step_id;
+        return;
+      }
+
+      case 'step.create': {
+        const step: RecordedStep = {
+          stepId: data.step_id,
+          runId: data.run_id,
+          name: data.name,
+          type: data.type,
+          metadata: data.metadata || {},
+          parentStepIds: data.parent_step_ids || [],
+          startedAt: data.started_at,
+          llmCalls: [],
+          metrics: [],
+          candidates: [],
+        };
+        this.steps.set(step.stepId, step);
+        this.ensureRun(data.run_id, data.pipeline).steps.push(step);
+        return;
+      }
+
+      case 'step.summary': {
+        const step = this.steps.get(data.step_id);
+        if (!step) return;
+        step.summary = {
+          inputCount: data.input_count,
+          outputCount: data.output_count,
+          rejectionBreakdown: data.rejection_breakdown,
+          reasonCodeBreakdown: data.reason_code_breakdown,
+        };
+        return;
+      }
+
+      case 'candidate.bulk': {
+        const step = this.steps.get(data.step_id);
+        if (!step) return;
+        for (const c of data.candidates) {
+          step.candidates.push({
+            candidateId: c.candidate_id,
+            decision: c.decision,
+            score: c.score,
+            reason: c.reason,
+            reasonCode: c.reason_code,
+            reasonParams: c.reason_params,
+            attributes: c.attributes,
+          });
+        }
+        return;
+      }
+
+      case 'llm.call': {
+        const step = this.steps.get(data.step_id);
+        if (!step) return;
+        step.llmCalls.push({
+          callId: data.call_id,
+          provider: data.provider,
+          model: data.model,
+          prompt: data.prompt,
+          completion: data.completion,
+          temperature: data.temperature,
+          parameters: data.parameters,
+          promptTokens: data.prompt_tokens,
+          completionTokens: data.completion_tokens,
+          totalTokens: data.total_tokens,
+          costUsd: data.cost_usd,
+          latencyMs: data.latency_ms,
+        });
+        return;
+      }
+
+      case 'metric.record': {
+        const metric: RecordedMetric = { metricId: data.metric_id, name: data.name, value: data.value, unit: data.unit };
+        if (!data.step_id) {
+          this.ensureRun(data.run_id, data.pipeline).metrics.push(metric);
+          return;
+        }
+        this.steps.get(data.step_id)?.metrics.push(metric);
+        return;
+      }
+
+      case 'step.end': {
+        const step = this.steps.get(data.step_id);
+        if (!step) return;
+        step.endedAt = data.ended_at;
+        step.status = data.status;
+        step.error = data.error;
+        step.errorClass = data.error_class;
+        return;
+      }
+    }
+  }
+
+  // Steps may be recorded for runs started elsewhere (e.g. resumed runs)
+  private ensureRun(runId: string, pipeline?: string): RecordedRun {
+    let run = this.runs.get(runId);
+    if (!run) {
+      run = { runId, pipeline: pipeline || 'unknown', input: undefined, status: 'running', metrics: [], steps: [] };
+      this.runs.set(runId, run);
+    }
+    return run;
+  }
+}
@@ -0,0 +1,58 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { XRayClient } from '../src/client';
+
+// Accepts everything except bodies mentioning the run id 'bad' (400: rejected, not retried)
+const server = http.createServer((req, res) => {
+  let body = '';
+  req.on('data', (chunk) => (body += chunk));
+  req.on('end', () => {
+    res.statusCode = body.includes('"bad') ? 400 : 200;
+    res.end('{}');
+  });
+});
+let apiUrl: string;
+
+before(async () => {
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+function acknowledgedClient(): XRayClient {
+  return new XRayClient({ apiUrl, delivery: 'acknowledged', retry: { maxAttempts: 1 } });
+}
+
+test('waitForRun reports a failed delivery once', async () => {
+  const client = acknowledgedClient();
+  client.post('/runs', { run_id: 'good' });
+  client.post('/runs', { run_id: 'bad' });
+
+  assert.equal(await client.waitForRun('good'), true);
+  assert.equal(await client.waitForRun('bad'), false);
+  assert.equal(await client.waitForRun('bad'), true);
+});
+
+test('settled deliveries are not tracked, whether or not they failed', async () => {
+  const client = acknowledgedClient();
+  client.post('/runs', { run_id: 'good' });
+  client.post('/runs', { run_id: 'bad' });
+  await client.flush();
+
+  assert.equal((client as any).runDeliveries.size, 0);
+  assert.equal(await client.waitForRun('bad'), false);
+});
+
+test('only the latest 1000 failed runs are remembered', async () => {
+  const client = acknowledgedClient();
+  const events = Array.from({ length: 1001 }, (_, i) => ({ type: 'run.create', data: { run_id: `bad-${i}` } }));
+  client.post('/ingest', { events });
+  await client.flush();
+
+  assert.equal((client as any).failedRuns.size, 1000);
+  assert.equal(await client.waitForRun('bad-0'), true);
+  assert.equal(await client.waitForRun('bad-1000'), false);
+});
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Redactor } from '../src/redaction';
+
+function redactText(text: string, patterns: Array<'email' | 'phone' | 'card'> = ['phone']): string {
+  const redacted = new Redactor({ patterns }).apply({ type: 'step.create', data: { metadata: { text } } });
+  return redacted!.data.metadata.text;
+}
+
+test('phone preset masks phone numbers', () => {
+  assert.equal(redactText('call +1 415 555 0123 now'), 'call [REDACTED] now');
+  assert.equal(redactText('+14155550123'), '[REDACTED]');
+  assert.equal(redactText('+44 20 7946 0958'), '[REDACTED]');
+  assert.equal(redactText('+49 (30) 1234567'), '[REDACTED]');
+  assert.equal(redactText('(415) 555-0123'), '[REDACTED]');
+  assert.equal(redactText('home: 415-555-0123'), 'home: [REDACTED]');
+});
+
+test('phone preset leaves ordinary numbers alone', () => {
+  for (const text of [
+    'score 0.85123456',
+    '2024-01-15 10:30',
+    '2024-01-15T10:30:00.123456Z',
+    '1299.99 (12345)',
+    'order 12345678',
+    'price +12.5',
+    'v1.2.3',
+  ]) {
+    assert.equal(redactText(text), text);
+  }
+});
+
+test('card numbers are masked whole, not as phone numbers', () => {
+  assert.equal(redactText('card 4111 1111 1111 1111', ['phone', 'card']), 'card [REDACTED]');
+});
+
+test('email preset masks addresses', () => {
+  assert.equal(redactText('from jane.doe@example.com', ['email']), 'from [REDACTED]');
+});
@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createTestXRay, recordedRun } from '../src/testing';
+
+test('fail() on a resumed run records the error without ending the run', async () => {
+  const upstream = createTestXRay();
+  const run = upstream.startRun('pipeline', { query: 'q' });
+
+  const downstream = createTestXRay();
+  const resumed = downstream.resumeRun(run.context())!;
+  await resumed.fail(new TypeError('scoring service down'));
+
+  const recorded = recordedRun(resumed);
+  assert.equal(recorded.status, 'running');
+  assert.equal(recorded.endedAt, undefined);
+  assert.equal(recorded.error, 'scoring service down');
+  assert.equal(recorded.errorClass, 'TypeError');
+});
+
+test('fail() on an originating run ends it with the error', async () => {
+  const xray = createTestXRay();
+  const run = xray.startRun('pipeline', {});
+  await run.fail(new Error('boom'));
+
+  const recorded = recordedRun(run);
+  assert.equal(recorded.status, 'error');
+  assert.ok(recorded.endedAt);
+  assert.equal(recorded.error, 'boom');
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { initXRay } from '../src/index';
+import { createTestXRay, expectStep, snapshotRun, XRayAssertionError } from '../src/testing';
+
+function recordFilterRun() {
+  const xray = createTestXRay();
+  const run = xray.startRun('competitor-selection', { query: 'phone case' });
+  const step = run.step('filter_by_category', { type: 'filter' });
+  step.recordCandidate('p1', { decision: 'rejected', reasonCode: 'category_mismatch', reason: 'laptop_accessories' });
+  step.recordCandidate('p2', { decision: 'accepted' });
+  step.recordSummary({ inputCount: 2, outputCount: 1 });
+  step.end();
+  return { xray, run };
+}
+
+test('expectStep passes for recorded decisions, summary and status', () => {
+  const { run } = recordFilterRun();
+  expectStep(run, 'filter_by_category')
+    .toHaveRejected('p1')
+    .toHaveRejected('p1', 'category_mismatch')
+    .toHaveRejected('p1', { reason: 'laptop_accessories' })
+    .toHaveAccepted('p2')
+    .toHaveSummary({ inputCount: 2, outputCount: 1 })
+    .toHaveStatus('success');
+});
+
+test('expectStep throws XRayAssertionError describing the mismatch', () => {
+  const { run } = recordFilterRun();
+  const step = expectStep(run, 'filter_by_category');
+
+  assert.throws(() => step.toHaveAccepted('p1'), {
+    name: 'XRayAssertionError',
+    message: 'Expected step "filter_by_category" to have accepted "p1", but it was rejected (code category_mismatch, "laptop_accessories")',
+  });
+  assert.throws(() => step.toHaveRejected('p1', 'out_of_stock'), XRayAssertionError);
+  assert.throws(() => step.toHaveRejected('p3'), /recorded: p1, p2/);
+  assert.throws(() => step.toHaveSummary({ outputCount: 2 }), /outputCount to be 2, but it was 1/);
+  assert.throws(() => step.toHaveStatus('error'), /to end with error, but it ended with success/);
+  assert.throws(() => expectStep(run, 'rank'), /recorded steps: filter_by_category/);
+});
+
+test('snapshotRun omits ids and timestamps', () => {
+  const { run } = recordFilterRun();
+  const snapshot = snapshotRun(run);
+
+  assert.equal(snapshot.pipeline, 'competitor-selection');
+  assert.deepEqual(snapshot.input, { query: 'phone case' });
+  assert.equal(snapshot.steps.length, 1);
+  assert.equal(snapshot.steps[0].name, 'filter_by_category');
+  assert.deepEqual(snapshot.steps[0].parents, []);
+  assert.doesNotMatch(JSON.stringify(snapshot), /stepId|runId|startedAt|endedAt/);
+  assert.deepEqual(snapshotRun(recordFilterRun().run), snapshot);
+});
+
+test('assertions refuse runs that were not recorded in memory', () => {
+  const run = initXRay({ apiUrl: 'http://localhost:3000', batch: { intervalMs: 60000 } }).startRun('p', {});
+  assert.throws(() => expectStep(run, 'filter_by_category'), /not recorded in memory/);
+});
+
+test('the http transport requires an apiUrl', () => {
+  assert.throws(() => initXRay({}), /apiUrl is required/);
+  assert.throws(() => initXRay({ transport: 'http' }), /apiUrl is required/);
+  assert.doesNotThrow(() => initXRay({ transport: 'memory' }));
+});